@@ -0,0 +1,373 @@
+/**
+ * MOCK PETFINDER SERVER - Offline stand-in for the Petfinder API v2
+ *
+ * Serves fixture-backed /oauth2/token, /animals, /organizations and /types
+ * routes so the MCP server can be developed and tested without network
+ * access or real credentials. Errors (401, 404, 429, 500, ...) can be
+ * injected per route, either programmatically or through /__mock/errors.
+ *
+ * Run standalone:  bun run mock/petfinder-server.ts
+ * Then start the MCP server with PETFINDER_BASE_URL=http://localhost:4010/v2
+ */
+
+import { serve } from 'bun';
+import animalsFixture from './fixtures/animals.json';
+import breedsFixture from './fixtures/breeds.json';
+import organizationsFixture from './fixtures/organizations.json';
+import typesFixture from './fixtures/types.json';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface InjectedError {
+  status: number;
+  times?: number; // How many matching requests fail (default: 1)
+  retryAfter?: number; // Seconds, sent as a Retry-After header
+  detail?: string;
+}
+
+export interface MockPetfinderOptions {
+  port?: number;
+  // Decides which client credentials get a token (default: secret is "<id>-secret")
+  isValidClient?: (clientId: string, clientSecret: string) => boolean;
+}
+
+export type MockAnimal = (typeof animalsFixture)[number];
+
+export interface MockPetfinder {
+  url: string; // Base URL including /v2, ready for PETFINDER_BASE_URL
+  requests: Array<{ method: string; path: string; search: string }>;
+  injectError(path: string | RegExp, error: InjectedError): void;
+  addAnimal(animal: MockAnimal): void; // Listed until the next reset()
+  revokeTokens(): void;
+  reset(): void;
+  stop(): void;
+}
+
+interface ErrorRule {
+  path: string | RegExp;
+  error: InjectedError;
+  remaining: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const RATE_LIMIT = 1000;
+
+const ERROR_TITLES: Record<number, string> = {
+  400: 'Invalid Request',
+  401: 'Unauthorized',
+  403: 'Access Denied',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Unexpected Error',
+  503: 'Service Unavailable',
+};
+
+function problem(status: number, detail: string, headers: Record<string, string> = {}): Response {
+  return Response.json(
+    {
+      type: `https://www.petfinder.com/developers/v2/docs/errors/ERR-${status}/`,
+      status,
+      title: ERROR_TITLES[status] ?? 'Error',
+      detail,
+    },
+    {
+      status,
+      headers: { 'Content-Type': 'application/problem+json', ...headers },
+    }
+  );
+}
+
+// Boolean query params such as good_with_children=true (or 1)
+function booleanParam(params: URLSearchParams, key: string): boolean | undefined {
+  const value = params.get(key)?.toLowerCase();
+  return value === undefined ? undefined : value === 'true' || value === '1';
+}
+
+// "Small & Furry" -> "small-furry", matching the slugs Petfinder uses in URLs
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Petfinder takes comma-separated lists; the MCP server sends repeated keys
+function listParam(params: URLSearchParams, key: string): string[] {
+  return params
+    .getAll(key)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function paginate<T>(items: T[], params: URLSearchParams) {
+  const limit = Math.min(Math.max(Number(params.get('limit') ?? 20), 1), 100);
+  const page = Math.max(Number(params.get('page') ?? 1), 1);
+  const totalPages = Math.max(Math.ceil(items.length / limit), 1);
+
+  return {
+    items: items.slice((page - 1) * limit, page * limit),
+    pagination: {
+      count_per_page: limit,
+      total_count: items.length,
+      current_page: page,
+      total_pages: totalPages,
+      _links: {},
+    },
+  };
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+function searchAnimals(animals: MockAnimal[], params: URLSearchParams): Response {
+  const types = listParam(params, 'type');
+  const breeds = listParam(params, 'breed');
+  const sizes = listParam(params, 'size');
+  const genders = listParam(params, 'gender');
+  const ages = listParam(params, 'age');
+  const coats = listParam(params, 'coat');
+  const organizations = listParam(params, 'organization');
+  const status = (params.get('status') ?? 'adoptable').toLowerCase();
+  const name = params.get('name')?.toLowerCase();
+  const distance = params.get('distance') ? Number(params.get('distance')) : undefined;
+  const flags: Array<[boolean | undefined, (animal: MockAnimal) => boolean | null]> = [
+    [booleanParam(params, 'good_with_children'), (animal) => animal.environment.children],
+    [booleanParam(params, 'good_with_dogs'), (animal) => animal.environment.dogs],
+    [booleanParam(params, 'good_with_cats'), (animal) => animal.environment.cats],
+    [booleanParam(params, 'house_trained'), (animal) => animal.attributes.house_trained],
+    [booleanParam(params, 'declawed'), (animal) => animal.attributes.declawed],
+    [booleanParam(params, 'special_needs'), (animal) => animal.attributes.special_needs],
+  ];
+
+  // No geocoding here: animals listed at the searched postcode keep their
+  // fixture distance and everything else is 15 miles further away
+  const location = params.get('location');
+  const located = location
+    ? animals.map((animal) => ({
+        ...animal,
+        distance: animal.distance + (animal.contact.address.postcode === location ? 0 : 15),
+      }))
+    : animals;
+
+  const matches = located.filter((animal) => {
+    if (types.length && !types.includes(slugify(animal.type))) return false;
+    if (breeds.length && !breeds.some((breed) => [animal.breeds.primary, animal.breeds.secondary].some((value) => value?.toLowerCase() === breed))) return false;
+    if (sizes.length && !sizes.includes(slugify(animal.size))) return false;
+    if (genders.length && !genders.includes(animal.gender.toLowerCase())) return false;
+    if (ages.length && !ages.includes(animal.age.toLowerCase())) return false;
+    if (coats.length && !coats.includes(animal.coat.toLowerCase())) return false;
+    if (organizations.length && !organizations.includes(animal.organization_id.toLowerCase())) return false;
+    if (animal.status !== status) return false;
+    if (name && !animal.name.toLowerCase().includes(name)) return false;
+    if (distance !== undefined && animal.distance > distance) return false;
+    if (flags.some(([wanted, value]) => wanted !== undefined && value(animal) !== wanted)) return false;
+    return true;
+  });
+
+  switch (params.get('sort')) {
+    case 'recent':
+      matches.sort((a, b) => b.published_at.localeCompare(a.published_at));
+      break;
+    case '-recent':
+      matches.sort((a, b) => a.published_at.localeCompare(b.published_at));
+      break;
+    case 'distance':
+      matches.sort((a, b) => a.distance - b.distance);
+      break;
+    case '-distance':
+      matches.sort((a, b) => b.distance - a.distance);
+      break;
+  }
+
+  const { items, pagination } = paginate(matches, params);
+  return Response.json({ animals: items, pagination });
+}
+
+function searchOrganizations(params: URLSearchParams): Response {
+  const name = params.get('name')?.toLowerCase();
+  const query = params.get('query')?.toLowerCase();
+  const state = params.get('state')?.toLowerCase();
+  const country = params.get('country')?.toLowerCase();
+  const distance = params.get('distance') ? Number(params.get('distance')) : undefined;
+
+  const matches = organizationsFixture.filter((organization) => {
+    if (name && !organization.name.toLowerCase().includes(name)) return false;
+    if (query && ![organization.name, organization.address.city].some((value) => value.toLowerCase().includes(query))) return false;
+    if (state && organization.address.state.toLowerCase() !== state) return false;
+    if (country && organization.address.country.toLowerCase() !== country) return false;
+    if (distance !== undefined && organization.distance > distance) return false;
+    return true;
+  });
+
+  const sort = params.get('sort');
+  if (sort) {
+    const field = sort.replace(/^-/, '');
+    const direction = sort.startsWith('-') ? -1 : 1;
+    const value = (organization: (typeof organizationsFixture)[number]): string | number =>
+      field === 'distance'
+        ? organization.distance
+        : field === 'name'
+          ? organization.name
+          : (organization.address as Record<string, any>)[field] ?? '';
+    matches.sort((a, b) => (value(a) < value(b) ? -direction : value(a) > value(b) ? direction : 0));
+  }
+
+  const { items, pagination } = paginate(matches, params);
+  return Response.json({ organizations: items, pagination });
+}
+
+function routeAPI(path: string, params: URLSearchParams, animals: MockAnimal[]): Response {
+  if (path === '/animals') {
+    return searchAnimals(animals, params);
+  }
+
+  let match = /^\/animals\/(\d+)$/.exec(path);
+  if (match) {
+    const animal = animals.find((candidate) => candidate.id === Number(match![1]));
+    return animal ? Response.json({ animal }) : problem(404, 'Unable to find animal.');
+  }
+
+  if (path === '/organizations') {
+    return searchOrganizations(params);
+  }
+
+  match = /^\/organizations\/([^/]+)$/.exec(path);
+  if (match) {
+    const organization = organizationsFixture.find(
+      (candidate) => candidate.id.toLowerCase() === decodeURIComponent(match![1]!).toLowerCase()
+    );
+    return organization ? Response.json({ organization }) : problem(404, 'Unable to find organization.');
+  }
+
+  if (path === '/types') {
+    return Response.json({ types: typesFixture });
+  }
+
+  match = /^\/types\/([^/]+)(\/breeds)?$/.exec(path);
+  if (match) {
+    const slug = slugify(decodeURIComponent(match[1]!));
+    const type = typesFixture.find((candidate) => slugify(candidate.name) === slug);
+    if (!type) {
+      return problem(404, 'Unable to find type.');
+    }
+    return match[2]
+      ? Response.json({ breeds: (breedsFixture as Record<string, unknown[]>)[slug] ?? [] })
+      : Response.json({ type });
+  }
+
+  return problem(404, `No route for ${path}.`);
+}
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+export function startMockPetfinder(options: MockPetfinderOptions = {}): MockPetfinder {
+  const isValidClient =
+    options.isValidClient ?? ((clientId: string, clientSecret: string) => clientSecret === `${clientId}-secret`);
+
+  const tokens = new Set<string>();
+  const requests: MockPetfinder['requests'] = [];
+  let addedAnimals: MockAnimal[] = [];
+  let errorRules: ErrorRule[] = [];
+  let tokenCounter = 0;
+
+  function injectError(path: string | RegExp, error: InjectedError) {
+    errorRules.push({ path, error, remaining: error.times ?? 1 });
+  }
+
+  function takeInjectedError(path: string): InjectedError | undefined {
+    const rule = errorRules.find(
+      (candidate) =>
+        candidate.remaining > 0 &&
+        (typeof candidate.path === 'string' ? candidate.path === path : candidate.path.test(path))
+    );
+    if (rule) {
+      rule.remaining--;
+    }
+    return rule?.error;
+  }
+
+  const server = serve({
+    port: options.port ?? 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+
+      // Control endpoints for driving the mock from outside the process
+      if (url.pathname === '/__mock/errors') {
+        if (req.method === 'DELETE') {
+          errorRules = [];
+          return new Response(null, { status: 204 });
+        }
+        const { path, ...error } = (await req.json()) as InjectedError & { path: string };
+        injectError(path, error);
+        return new Response(null, { status: 201 });
+      }
+
+      if (!url.pathname.startsWith('/v2/')) {
+        return problem(404, `No route for ${url.pathname}.`);
+      }
+
+      const path = url.pathname.slice('/v2'.length);
+      requests.push({ method: req.method, path, search: url.search });
+
+      const injected = takeInjectedError(path);
+      if (injected) {
+        return problem(
+          injected.status,
+          injected.detail ?? `Injected ${injected.status} error.`,
+          injected.retryAfter !== undefined ? { 'Retry-After': String(injected.retryAfter) } : {}
+        );
+      }
+
+      if (path === '/oauth2/token') {
+        const form = new URLSearchParams(await req.text());
+        const clientId = form.get('client_id') ?? '';
+        const clientSecret = form.get('client_secret') ?? '';
+
+        if (form.get('grant_type') !== 'client_credentials' || !isValidClient(clientId, clientSecret)) {
+          return problem(401, 'Client authentication failed.');
+        }
+
+        const token = `mock-token-${++tokenCounter}`;
+        tokens.add(token);
+        return Response.json({ token_type: 'Bearer', expires_in: 3600, access_token: token });
+      }
+
+      const token = req.headers.get('authorization')?.replace(/^Bearer /, '');
+      if (!token || !tokens.has(token)) {
+        return problem(401, 'Access token invalid or expired.');
+      }
+
+      const response = routeAPI(path, url.searchParams, [...animalsFixture, ...addedAnimals]);
+      response.headers.set('X-RateLimit-Limit', String(RATE_LIMIT));
+      response.headers.set('X-RateLimit-Remaining', String(Math.max(RATE_LIMIT - requests.length, 0)));
+      response.headers.set('X-RateLimit-Reset', '3600');
+      return response;
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}/v2`,
+    requests,
+    injectError,
+    addAnimal: (animal) => addedAnimals.push(animal),
+    revokeTokens: () => tokens.clear(),
+    reset() {
+      errorRules = [];
+      addedAnimals = [];
+      requests.length = 0;
+    },
+    stop: () => server.stop(true),
+  };
+}
+
+if (import.meta.main) {
+  const mock = startMockPetfinder({ port: parseInt(process.env.MOCK_PETFINDER_PORT ?? '4010', 10) });
+  console.log(`🧪 Mock Petfinder API listening at ${mock.url}`);
+  console.log('🔑 Any client ID works with the secret "<client-id>-secret"');
+}
@@ -0,0 +1,1201 @@
+import { afterAll, afterEach, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { serve, type Server } from 'bun';
+import animalsFixture from './mock/fixtures/animals.json';
+import { startMockPetfinder, type MockPetfinder } from './mock/petfinder-server.ts';
+import {
+  FavoriteStore,
+  handleHTTPRequest,
+  SavedSearchStore,
+  setCredentialSources,
+  setFavoriteStore,
+  setPetfinderBaseURL,
+  setInboundRateLimits,
+  setSavedSearchPollSeconds,
+  setSavedSearchStore,
+  setToolSelection,
+} from './simple-mcp-server.ts';
+
+let mock: MockPetfinder;
+let server: Server;
+let nextId = 1;
+
+beforeAll(() => {
+  mock = startMockPetfinder();
+  setPetfinderBaseURL(mock.url);
+  setSavedSearchStore(new SavedSearchStore(':memory:'));
+  setFavoriteStore(new FavoriteStore(':memory:'));
+  server = serve({ port: 0, fetch: handleHTTPRequest });
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+afterAll(() => {
+  server.stop(true);
+  mock.stop();
+});
+
+// Each test gets its own client so token, rate-limit and response caches never
+// carry over between tests
+function newClient() {
+  const clientId = `e2e-${crypto.randomUUID()}`;
+  return { clientId, clientSecret: `${clientId}-secret` };
+}
+
+function basicAuth({ clientId, clientSecret }: { clientId: string; clientSecret: string }) {
+  return { Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}` };
+}
+
+async function rpc(
+  method: string,
+  params?: unknown,
+  client: { clientId: string; clientSecret: string } = newClient()
+) {
+  const response = await fetch(`http://localhost:${server.port}/mcp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...basicAuth(client),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+  });
+  return (await response.json()) as any;
+}
+
+function callTool(name: string, args: unknown = {}, client?: { clientId: string; clientSecret: string }) {
+  return rpc('tools/call', { name, arguments: args }, client);
+}
+
+describe('tools', () => {
+  test('tools/list advertises input and output schemas for every tool', async () => {
+    const { result } = await rpc('tools/list');
+    const names = result.tools.map((tool: any) => tool.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'pets.search',
+        'pets.search_all',
+        'pets.get',
+        'organizations.search',
+        'organizations.get',
+        'organizations.profile',
+        'types.list',
+        'types.get',
+        'breeds.list',
+        'searches.save',
+        'searches.list',
+        'searches.delete',
+        'searches.check_new',
+        'favorites.add',
+        'favorites.remove',
+        'favorites.list',
+        'favorites.compare',
+      ])
+    );
+    for (const tool of result.tools) {
+      expect(tool.inputSchema.type).toBe('object');
+      expect(tool.outputSchema.type).toBe('object');
+    }
+  });
+
+  test('pets.search filters by type and reports pagination', async () => {
+    const { result } = await callTool('pets.search', { type: 'dog' });
+
+    expect(result.structuredContent.animals.map((animal: any) => animal.name).sort()).toEqual([
+      'Biscuit',
+      'Moose',
+      'Pepper',
+    ]);
+    expect(result.structuredContent.pagination.total_count).toBe(3);
+    expect(result.content[0].text).toContain('page 1 of 1, 3 total');
+  });
+
+  test('pets.search returns compact records', async () => {
+    const { result } = await callTool('pets.search', { type: 'cat', format: 'compact' });
+
+    expect(result.structuredContent.animals).toContainEqual(
+      expect.objectContaining({ id: 1005, name: 'Earl Grey', breed: 'Russian Blue', city: 'Los Angeles' })
+    );
+    expect(result.structuredContent.animals[0].photos).toBeUndefined();
+  });
+
+  test('markdown format adds a table as a second text block', async () => {
+    const client = newClient();
+    const pets = await callTool('pets.search', { type: 'cat', format: 'markdown' }, client);
+    const organizations = await callTool('organizations.search', { format: 'markdown' }, client);
+
+    expect(pets.result.content).toHaveLength(2);
+    expect(pets.result.content[1].text).toStartWith('| ID | Name | Breed | Age | Size | Gender | Distance | Location | Profile |');
+    expect(pets.result.content[1].text).toContain('| 1005 | Earl Grey |');
+    expect(organizations.result.content).toHaveLength(2);
+    expect(organizations.result.content[1].text).toStartWith('| ID | Name | Location | Email | Phone | Distance | Profile |');
+  });
+
+  test('pets.search sends native filters upstream', async () => {
+    const { result } = await callTool('pets.search', { good_with_cats: true, house_trained: true });
+
+    expect(result.structuredContent.animals.map((animal: any) => animal.name).sort()).toEqual(['Earl Grey', 'Pepper']);
+    expect(result.structuredContent.filters).toEqual({
+      server_side: ['status', 'good_with_cats', 'house_trained'],
+      client_side: [],
+    });
+    expect(mock.requests.find((request) => request.path === '/animals')?.search).toContain('good_with_cats=true');
+  });
+
+  test('pets.search pages forward to satisfy client-side filters', async () => {
+    const { result } = await callTool('pets.search', { has_photos: false, description_contains: 'TORNADO', limit: 1 });
+
+    expect(result.structuredContent.animals.map((animal: any) => animal.name)).toEqual(['Nimbus']);
+    expect(result.structuredContent.filters.client_side).toEqual(['has_photos', 'description_contains']);
+    expect(result.structuredContent.client_filtering.pages_scanned).toBeGreaterThan(1);
+    expect(result.structuredContent.client_filtering.budget_exhausted).toBe(false);
+  });
+
+  test('pets.search returns at most limit matches and resumes without gaps', async () => {
+    for (const [index, name] of ['Gale', 'Zephyr', 'Breeze', 'Squall'].entries()) {
+      mock.addAnimal({ ...animalsFixture[0]!, id: 1100 + index, name, description: `${name} is a little tornado.` });
+    }
+    const client = newClient();
+
+    const seen: string[] = [];
+    const offsets: number[] = [];
+    let resume: { page: number; page_offset?: number } | null = { page: 1 };
+    while (resume) {
+      const { result } = await callTool('pets.search', { description_contains: 'tornado', limit: 3, ...resume }, client);
+      const { animals, client_filtering } = result.structuredContent;
+
+      expect(animals.length).toBeLessThanOrEqual(3);
+      seen.push(...animals.map((animal: any) => animal.name));
+      offsets.push(client_filtering.next_offset);
+      resume = client_filtering.next_page
+        ? { page: client_filtering.next_page, page_offset: client_filtering.next_offset }
+        : null;
+    }
+
+    expect(seen.sort()).toEqual(['Breeze', 'Gale', 'Nimbus', 'Squall', 'Zephyr']);
+    expect(offsets.some((offset) => offset > 0)).toBe(true);
+  });
+
+  test('pets.search resolves loose type, breed and coat names', async () => {
+    const client = newClient();
+
+    const lab = await callTool('pets.search', { type: 'Dogs', breed: ['lab'], coat: ['SHORT'] }, client);
+    expect(lab.result.structuredContent.animals.map((animal: any) => animal.name)).toEqual(['Biscuit']);
+
+    const mix = await callTool('pets.search', { breed: ['russian blue mix'] }, client);
+    expect(mix.result.structuredContent.animals.map((animal: any) => animal.name)).toEqual(['Earl Grey']);
+  });
+
+  test('ambiguous and unknown names fail with suggestions', async () => {
+    const { error } = await callTool('pets.search', { type: 'dog', breed: ['retriever'], color: ['purple'] });
+
+    expect(error.code).toBe(-32602);
+    expect(error.data['invalid-params']).toEqual([
+      expect.objectContaining({
+        path: 'breed[0]',
+        suggestions: expect.arrayContaining(['Golden Retriever', 'Labrador Retriever']),
+      }),
+      expect.objectContaining({ path: 'color[0]', suggestions: [] }),
+    ]);
+
+    const breeds = await callTool('breeds.list', { type: 'Cats' });
+    expect(breeds.result.structuredContent.breeds.map((breed: any) => breed.name)).toContain('Siamese');
+
+    const type = await callTool('types.get', { type: 'kitty' });
+    expect(type.error.code).toBe(-32602);
+  });
+
+  test('schema violations map to -32602 with one entry per field', async () => {
+    const { error } = await callTool('pets.search', { status: 'sold', limit: 500 });
+
+    expect(error.code).toBe(-32602);
+    expect(error.data['invalid-params']).toEqual([
+      expect.objectContaining({ in: 'arguments', path: 'status', allowed: ['adoptable', 'adopted', 'found'] }),
+      expect.objectContaining({ in: 'arguments', path: 'limit' }),
+    ]);
+
+    const pet = await callTool('pets.get', { id: 'abc' });
+    expect(pet.error.code).toBe(-32602);
+    expect(pet.error.data['invalid-params'][0].path).toBe('id');
+    expect(mock.requests.filter((request) => request.path.startsWith('/animals'))).toHaveLength(0);
+  });
+
+  test('malformed tools/call params are rejected without crashing', async () => {
+    const missing = await rpc('tools/call');
+    const badArguments = await rpc('tools/call', { name: 'pets.get', arguments: 'id=1' });
+    const inherited = await rpc('tools/call', { name: 'toString' });
+
+    expect(missing.error.code).toBe(-32602);
+    expect(missing.error.data['invalid-params'][0]).toMatchObject({ in: 'params', path: 'name' });
+    expect(badArguments.error.data['invalid-params'][0]).toMatchObject({ in: 'params', path: 'arguments' });
+    expect(inherited.error.code).toBe(-32601);
+  });
+
+  test('pets.search_all follows every page', async () => {
+    const { result } = await callTool('pets.search_all', { max_results: 10 });
+
+    expect(result.structuredContent.animals).toHaveLength(5);
+    expect(result.structuredContent.truncated).toBe(false);
+  });
+
+  test('pets.search_all reports which limit truncated the results', async () => {
+    // 105 animals span two pages of 100
+    for (let id = 2000; id < 2100; id++) {
+      mock.addAnimal({ ...animalsFixture[0]!, id, name: `Pup ${id}` });
+    }
+    const client = newClient();
+
+    const all = await callTool('pets.search_all', { max_results: 1000 }, client);
+    const byResults = await callTool('pets.search_all', { max_results: 2 }, client);
+    const byPages = await callTool('pets.search_all', { max_pages: 1 }, client);
+
+    expect(all.result.structuredContent).toMatchObject({ pages_fetched: 2, truncated: false });
+    expect(all.result.structuredContent.animals).toHaveLength(105);
+    expect(byResults.result.structuredContent).toMatchObject({ truncated: true, truncated_reason: 'max_results' });
+    expect(byResults.result.structuredContent.animals).toHaveLength(2);
+    expect(byPages.result.structuredContent).toMatchObject({
+      pages_fetched: 1,
+      truncated: true,
+      truncated_reason: 'max_pages',
+    });
+    expect(byPages.result.structuredContent.animals).toHaveLength(100);
+  });
+
+  test('pets.search_near merges locations and ranks by the closest one', async () => {
+    const { result } = await callTool('pets.search_near', { locations: ['90001', ' 91101 '], format: 'compact' });
+    const { matches, locations } = result.structuredContent;
+
+    expect(locations.map((location: any) => location.location)).toEqual(['90001', '91101']);
+    expect(matches).toHaveLength(5);
+    expect(matches.map((match: any) => match.distance)).toEqual([2.1, 2.1, 2.1, 11.8, 11.8]);
+    expect(matches.find((match: any) => match.animal.id === 1003)).toMatchObject({
+      nearest_location: '91101',
+      distances: { '90001': 26.8, '91101': 11.8 },
+    });
+  });
+
+  test('unsupported locations are rejected before reaching Petfinder', async () => {
+    const { error } = await callTool('pets.search', { location: 'somewhere nice' });
+
+    expect(error.code).toBe(-32602);
+    expect(error.data['invalid-params'][0].path).toBe('location');
+    expect(mock.requests.filter((request) => request.path === '/animals')).toHaveLength(0);
+
+    const organizations = await callTool('organizations.search', { location: 'pasadena, ca' });
+    expect(organizations.result.structuredContent.organizations).toHaveLength(2);
+    expect(mock.requests.at(-1)?.search).toContain('location=pasadena%2C+CA');
+  });
+
+  test('city names with accented letters are accepted', async () => {
+    const client = newClient();
+
+    for (const [location, expected] of [
+      ['Montréal, qc', 'location=Montr%C3%A9al%2C+QC'],
+      ['Lévis,QC', 'location=L%C3%A9vis%2C+QC'],
+    ]) {
+      const { error } = await callTool('pets.search', { location }, client);
+      expect(error).toBeUndefined();
+      expect(mock.requests.at(-1)?.search).toContain(expected);
+    }
+  });
+
+  test('pets.get returns a single animal', async () => {
+    const { result } = await callTool('pets.get', { id: 1001 });
+
+    expect(result.structuredContent.animal.name).toBe('Biscuit');
+  });
+
+  test('organizations.search and organizations.get', async () => {
+    const search = await callTool('organizations.search', { query: 'pasadena' });
+    expect(search.result.structuredContent.organizations.map((org: any) => org.id)).toEqual(['CA202']);
+
+    const get = await callTool('organizations.get', { id: 'CA101' });
+    expect(get.result.structuredContent.organization.name).toBe('Sunset Animal Rescue');
+  });
+
+  test('organizations.profile bundles the organization with its inventory', async () => {
+    const { result } = await callTool('organizations.profile', { id: 'CA101', animal_limit: 2 });
+    const { organization, inventory, animals } = result.structuredContent;
+
+    expect(organization.adoption.policy).toContain('48 hours');
+    expect(organization.hours.saturday).toBe('9:00 AM - 4:00 PM');
+    expect(organization.social_media).toEqual({
+      facebook: 'https://facebook.com/ca101',
+      instagram: 'https://instagram.com/ca101',
+    });
+    expect(inventory).toMatchObject({ total_count: 3, counted: 3, truncated: false, by_type: { Dog: 2, Cat: 1 } });
+    expect(animals).toHaveLength(2);
+    expect(result.content[0].text).toBe('Sunset Animal Rescue (Los Angeles, CA) has 3 adoptable pets: 2 Dog, 1 Cat.');
+  });
+
+  test('types.list, types.get and breeds.list', async () => {
+    const client = newClient();
+
+    const types = await callTool('types.list', {}, client);
+    expect(types.result.structuredContent.types.map((type: any) => type.name)).toEqual(['Dog', 'Cat']);
+
+    const type = await callTool('types.get', { type: 'dog' }, client);
+    expect(type.result.structuredContent.type.coats).toContain('Wire');
+
+    const breeds = await callTool('breeds.list', { type: 'cat' }, client);
+    expect(breeds.result.structuredContent.breeds.map((breed: any) => breed.name)).toContain('Maine Coon');
+  });
+});
+
+describe('credentials', () => {
+  afterEach(() => {
+    setCredentialSources({ apiKeys: undefined, allowQueryCredentials: true });
+  });
+
+  async function typesList(headers: Record<string, string>, query = '') {
+    const response = await fetch(`http://localhost:${server.port}/mcp${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: nextId++,
+        method: 'tools/call',
+        params: { name: 'types.list', arguments: {} },
+      }),
+    });
+    return (await response.json()) as any;
+  }
+
+  test('vault API keys resolve from Authorization: Bearer or X-Api-Key', async () => {
+    setCredentialSources({ apiKeys: JSON.stringify({ 'key-1': newClient() }) });
+
+    const bearer = await typesList({ Authorization: 'Bearer key-1' });
+    const header = await typesList({ 'X-Api-Key': 'key-1' });
+    const unknown = await typesList({ 'X-Api-Key': 'key-2' });
+
+    expect(bearer.error).toBeUndefined();
+    expect(header.error).toBeUndefined();
+    expect(unknown.error.code).toBe(-32001);
+  });
+
+  test('Basic auth and X-Petfinder-* headers carry the client ID and secret', async () => {
+    const { clientId, clientSecret } = newClient();
+
+    const basic = await typesList({ Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}` });
+    const headers = await typesList({ 'X-Petfinder-Client-Id': clientId, 'X-Petfinder-Client-Secret': clientSecret });
+    const idOnly = await typesList({ 'X-Petfinder-Client-Id': clientId });
+
+    expect(basic.error).toBeUndefined();
+    expect(headers.error).toBeUndefined();
+    expect(idOnly.error.code).toBe(-32001);
+  });
+
+  test('query credentials work until ALLOW_QUERY_CREDENTIALS turns them off', async () => {
+    const { clientId, clientSecret } = newClient();
+    const query = `?client-id=${clientId}&client-secret=${clientSecret}`;
+
+    const allowed = await typesList({}, query);
+    setCredentialSources({ allowQueryCredentials: false });
+    const disabled = await typesList({}, query);
+
+    expect(allowed.error).toBeUndefined();
+    expect(disabled.error.code).toBe(-32001);
+    expect(disabled.error.message).not.toContain('query parameters');
+  });
+
+  test('query secrets are redacted from request logs', async () => {
+    const { clientId, clientSecret } = newClient();
+    const write = spyOn(process.stdout, 'write');
+
+    try {
+      await typesList({}, `?client-id=${clientId}&client-secret=${clientSecret}`);
+      const logged = write.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+      expect(logged).toContain(`client-id=${clientId}&client-secret=[REDACTED]`);
+      expect(logged).not.toContain(clientSecret);
+    } finally {
+      write.mockRestore();
+    }
+  });
+});
+
+describe('batches', () => {
+  function postBatch(body: unknown, client = newClient()) {
+    return fetch(`http://localhost:${server.port}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${btoa(`${client.clientId}:${client.clientSecret}`)}`,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  test('each entry gets its own reply or error and notifications get none', async () => {
+    const response = await postBatch([
+      { jsonrpc: '2.0', id: 'list', method: 'tools/list' },
+      { jsonrpc: '2.0', id: 'pet', method: 'tools/call', params: { name: 'pets.get', arguments: { id: 1001 } } },
+      { jsonrpc: '2.0', id: 'unknown', method: 'no/such/method' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      42,
+    ]);
+    const replies = (await response.json()) as any[];
+    const byId = new Map(replies.map((reply) => [reply.id, reply]));
+
+    expect(response.status).toBe(200);
+    expect(replies).toHaveLength(4);
+    expect(byId.get('list').result.tools.length).toBeGreaterThan(0);
+    expect(byId.get('pet').result.structuredContent.animal.id).toBe(1001);
+    expect(byId.get('unknown').error.code).toBe(-32601);
+    expect(byId.get(null).error.code).toBe(-32600);
+  });
+
+  test('a batch of only notifications is accepted with 202 and no body', async () => {
+    const response = await postBatch([
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } },
+    ]);
+
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe('');
+  });
+
+  test('an empty batch is an invalid request', async () => {
+    const response = await postBatch([]);
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe(-32600);
+  });
+});
+
+describe('resources', () => {
+  test('resources/list has the types list and a breeds list per type', async () => {
+    const { result } = await rpc('resources/list');
+    const uris = result.resources.map((resource: any) => resource.uri);
+
+    expect(uris).toContain('petfinder://types');
+    expect(uris).toContain('petfinder://types/dog/breeds');
+    expect(uris).toContain('petfinder://types/scales-fins-other/breeds');
+  });
+
+  test('resources/templates/list returns the parameterized URIs', async () => {
+    const { result } = await rpc('resources/templates/list');
+
+    expect(result.resourceTemplates.map((template: any) => template.uriTemplate)).toEqual([
+      'petfinder://animals/{id}',
+      'petfinder://organizations/{id}',
+      'petfinder://types/{type}',
+      'petfinder://types/{type}/breeds',
+    ]);
+  });
+
+  test('an animal URI returns the animal as JSON text', async () => {
+    const { result } = await rpc('resources/read', { uri: 'petfinder://animals/1001' });
+    const [content] = result.contents;
+
+    expect(content).toMatchObject({ uri: 'petfinder://animals/1001', mimeType: 'application/json' });
+    expect(JSON.parse(content.text).animal).toMatchObject({ id: 1001, name: 'Biscuit' });
+  });
+
+  test('an unknown URI is invalid params', async () => {
+    const { error } = await rpc('resources/read', { uri: 'petfinder://shelters/1' });
+
+    expect(error.code).toBe(-32602);
+  });
+});
+
+describe('prompts', () => {
+  test('prompts/list describes each prompt and its arguments', async () => {
+    const { result } = await rpc('prompts/list');
+    const byName = new Map(result.prompts.map((prompt: any) => [prompt.name, prompt]));
+
+    expect([...byName.keys()]).toEqual(['find-apartment-dog', 'compare-pets', 'adoption-inquiry-email']);
+    expect((byName.get('compare-pets') as any).arguments).toEqual([
+      { name: 'ids', description: expect.any(String), required: true },
+    ]);
+  });
+
+  test('compare-pets coerces a comma-separated ID list', async () => {
+    const { result } = await rpc('prompts/get', { name: 'compare-pets', arguments: { ids: '1001, 1002' } });
+    const [instructions, ...pets] = result.messages;
+
+    expect(instructions.content.text).toContain('Compare these 2 pets');
+    expect(pets.map((message: any) => message.content.resource.uri)).toEqual([
+      'petfinder://animals/1001',
+      'petfinder://animals/1002',
+    ]);
+    expect(JSON.parse(pets[0].content.resource.text).animal.name).toBe('Biscuit');
+  });
+
+  test('compare-pets needs at least two IDs', async () => {
+    const { error } = await rpc('prompts/get', { name: 'compare-pets', arguments: { ids: '1001' } });
+
+    expect(error.code).toBe(-32602);
+    expect(error.data['invalid-params'][0].path).toBe('ids');
+  });
+
+  test('find-apartment-dog lists nearby dogs and validates the location', async () => {
+    const { result } = await rpc('prompts/get', { name: 'find-apartment-dog', arguments: { location: '90001' } });
+    expect(result.messages[0].content.text).toContain('near 90001');
+    expect(result.messages[0].content.text).toContain('Pepper (ID 1002)');
+
+    const { error } = await rpc('prompts/get', { name: 'find-apartment-dog', arguments: { location: 'somewhere nice' } });
+    expect(error.code).toBe(-32602);
+    expect(error.data['invalid-params'][0].path).toBe('location');
+  });
+
+  test('adoption-inquiry-email attaches the pet and its organization', async () => {
+    const { result } = await rpc('prompts/get', { name: 'adoption-inquiry-email', arguments: { id: '1001' } });
+
+    expect(result.messages.map((message: any) => message.content.resource?.uri ?? 'text')).toEqual([
+      'text',
+      'petfinder://animals/1001',
+      `petfinder://organizations/${animalsFixture[0]!.organization_id}`,
+    ]);
+  });
+
+  test('prompts/get requires credentials', async () => {
+    const response = await fetch(`http://localhost:${server.port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: nextId++,
+        method: 'prompts/get',
+        params: { name: 'compare-pets', arguments: { ids: '1001,1002' } },
+      }),
+    });
+
+    expect(((await response.json()) as any).error.code).toBe(-32001);
+  });
+});
+
+describe('saved searches', () => {
+  test('check_new reports only animals listed since the last check', async () => {
+    const client = newClient();
+    const saved = await callTool('searches.save', { name: 'Cats', query: { type: 'cat' } }, client);
+    const { search, current_matches } = saved.result.structuredContent;
+    expect(current_matches).toBe(2);
+
+    const unchanged = await callTool('searches.check_new', { id: search.id }, client);
+    expect(unchanged.result.structuredContent.new_count).toBe(0);
+
+    mock.addAnimal({ ...animalsFixture[4]!, id: 1006, name: 'Mochi', published_at: '2026-10-18T12:00:00+0000' });
+    const fresh = await callTool('searches.check_new', { id: search.id, format: 'compact' }, client);
+    expect(fresh.result.structuredContent.new_animals.map((animal: any) => animal.name)).toEqual(['Mochi']);
+
+    const again = await callTool('searches.check_new', { id: search.id }, client);
+    expect(again.result.structuredContent.new_count).toBe(0);
+  });
+
+  test('a watched search pushes new matches to the session stream', async () => {
+    setSavedSearchPollSeconds(0.1);
+    const client = newClient();
+    const url = `http://localhost:${server.port}/mcp`;
+    const auth = basicAuth(client);
+    const post = (body: unknown, sessionId?: string) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...auth, ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}) },
+        body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, ...(body as object) }),
+      });
+
+    try {
+      const initialize = await post({ method: 'initialize', params: {} });
+      const { result } = (await initialize.json()) as any;
+      const sessionId = initialize.headers.get('mcp-session-id')!;
+      expect(result.capabilities.logging).toEqual({});
+
+      const stream = await fetch(url, { headers: { ...auth, Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } });
+      const saved = await post(
+        { method: 'tools/call', params: { name: 'searches.save', arguments: { name: 'Cats', query: { type: 'cat' } } } },
+        sessionId
+      );
+      expect(((await saved.json()) as any).result.structuredContent.search.watching).toBe(true);
+
+      mock.addAnimal({ ...animalsFixture[4]!, id: 1006, name: 'Mochi', published_at: '2026-10-18T12:00:00+0000' });
+
+      const reader = stream.body!.getReader();
+      let events = '';
+      while (!events.includes('Mochi')) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        events += new TextDecoder().decode(value);
+      }
+      await reader.cancel();
+      await fetch(url, { method: 'DELETE', headers: { ...auth, 'Mcp-Session-Id': sessionId } });
+
+      const message = JSON.parse(events.split('\n').find((line) => line.includes('Mochi'))!.slice('data: '.length));
+      expect(message).toMatchObject({
+        method: 'notifications/message',
+        params: { level: 'info', logger: 'saved-searches', data: { name: 'Cats', new_count: 1 } },
+      });
+    } finally {
+      setSavedSearchPollSeconds(900);
+    }
+  });
+
+  test('logging/setLevel accepts MCP log levels only', async () => {
+    expect((await rpc('logging/setLevel', { level: 'warning' })).result).toEqual({});
+    expect((await rpc('logging/setLevel', { level: 'loud' })).error.code).toBe(-32602);
+  });
+
+  test('searches are private to the client that saved them', async () => {
+    const owner = newClient();
+    const saved = await callTool('searches.save', { name: 'Dogs', query: { type: 'dog' } }, owner);
+    const { id } = saved.result.structuredContent.search;
+
+    const other = newClient();
+    expect((await callTool('searches.list', {}, other)).result.structuredContent.searches).toEqual([]);
+    expect((await callTool('searches.check_new', { id }, other)).error.code).toBe(-32003);
+    expect((await callTool('searches.delete', { id }, other)).result.structuredContent.deleted).toBe(false);
+
+    expect((await callTool('searches.delete', { id }, owner)).result.structuredContent.deleted).toBe(true);
+    expect((await callTool('searches.list', {}, owner)).result.structuredContent.searches).toEqual([]);
+  });
+
+  test('a known client ID with the wrong secret cannot list or delete searches', async () => {
+    const victim = newClient();
+    const saved = await callTool('searches.save', { name: 'Cats', query: { type: 'cat' } }, victim);
+    const { id } = saved.result.structuredContent.search;
+    const intruder = { clientId: victim.clientId, clientSecret: 'WRONG' };
+
+    expect((await callTool('searches.list', {}, intruder)).error.code).toBe(-32001);
+    expect((await callTool('searches.delete', { id }, intruder)).error.code).toBe(-32001);
+    expect((await callTool('searches.list', {}, victim)).result.structuredContent.searches).toHaveLength(1);
+  });
+});
+
+describe('favorites', () => {
+  test('compare lines up favorites and flags pets that are no longer adoptable', async () => {
+    const client = newClient();
+    mock.addAnimal({ ...animalsFixture[1]!, id: 1007, name: 'Rosie', status: 'adopted' });
+
+    expect((await callTool('favorites.add', { id: 1001, note: 'Loves kids' }, client)).result.structuredContent.added).toBe(true);
+    await callTool('favorites.add', { id: 1007 }, client);
+    expect((await callTool('favorites.add', { id: 1001 }, client)).result.structuredContent).toMatchObject({
+      added: false,
+      favorite: { note: 'Loves kids' },
+    });
+
+    const list = await callTool('favorites.list', {}, client);
+    expect(list.result.structuredContent.favorites.map((favorite: any) => favorite.name)).toEqual(['Biscuit', 'Rosie']);
+
+    const { result } = await callTool('favorites.compare', {}, client);
+    expect(result.structuredContent.status_changed).toEqual([1007]);
+    expect(result.structuredContent.pets[0]).toMatchObject({
+      name: 'Biscuit',
+      status_changed: false,
+      organization: { id: 'CA101', name: 'Sunset Animal Rescue' },
+    });
+    expect(result.content[1].text).toContain('| Good with children |');
+
+    expect((await callTool('favorites.remove', { id: 1007 }, client)).result.structuredContent.removed).toBe(true);
+    expect((await callTool('favorites.list', {}, client)).result.structuredContent.favorites).toHaveLength(1);
+  });
+
+  test('a known client ID with the wrong secret cannot read or change favorites', async () => {
+    const victim = newClient();
+    await callTool('favorites.add', { id: 1001, note: 'private note' }, victim);
+    const intruder = { clientId: victim.clientId, clientSecret: 'WRONG' };
+
+    const list = await callTool('favorites.list', {}, intruder);
+    const remove = await callTool('favorites.remove', { id: 1001 }, intruder);
+
+    expect(list.error.code).toBe(-32001);
+    expect(remove.error.code).toBe(-32001);
+    const { result } = await callTool('favorites.list', {}, victim);
+    expect(result.structuredContent.favorites.map((favorite: any) => favorite.note)).toEqual(['private note']);
+  });
+
+  test('unknown pets cannot be added', async () => {
+    const { error } = await callTool('favorites.add', { id: 999999 });
+
+    expect(error.code).toBe(-32003);
+  });
+});
+
+describe('upstream errors', () => {
+  test('invalid credentials map to -32001', async () => {
+    const { error } = await callTool('pets.get', { id: 1001 }, { clientId: 'e2e-bad', clientSecret: 'wrong' });
+
+    expect(error.code).toBe(-32001);
+    expect(error.data.status).toBe(401);
+  });
+
+  test('unknown animals map to -32003', async () => {
+    const { error } = await callTool('pets.get', { id: 999999 });
+
+    expect(error.code).toBe(-32003);
+    expect(error.data.detail).toBe('Unable to find animal.');
+  });
+
+  test('cached responses are never served to a wrong secret', async () => {
+    const victim = newClient();
+    await callTool('pets.get', { id: 1001 }, victim);
+    await rpc('resources/read', { uri: 'petfinder://types' }, victim);
+
+    const sameId = await rpc('resources/read', { uri: 'petfinder://animals/1001' }, { ...victim, clientSecret: 'WRONG' });
+    const shared = await rpc('resources/read', { uri: 'petfinder://types' }, { clientId: 'anyone', clientSecret: 'WRONG' });
+
+    expect(sameId.error.code).toBe(-32001);
+    expect(shared.error.code).toBe(-32001);
+  });
+
+  test('a response body that stalls after the headers times out', async () => {
+    // Sends a token normally, but animal bodies never finish
+    const stalling = serve({
+      port: 0,
+      fetch(req) {
+        if (new URL(req.url).pathname.endsWith('/oauth2/token')) {
+          return Response.json({ token_type: 'Bearer', expires_in: 3600, access_token: 'stalled' });
+        }
+        return new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('{"animal": {'));
+            },
+          }),
+          { headers: { 'Content-Type': 'application/json' } }
+        );
+      },
+    });
+
+    try {
+      const startedAt = Date.now();
+      const { stdout } = await runStdio(
+        [{ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'pets.get', arguments: { id: 1001 } } }],
+        {
+          PETFINDER_BASE_URL: `http://localhost:${stalling.port}/v2`,
+          UPSTREAM_TIMEOUT_MS: '300',
+          UPSTREAM_MAX_RETRIES: '0',
+        }
+      );
+      const reply = JSON.parse(stdout.trim());
+
+      expect(reply.error.data.status).toBe(504);
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+    } finally {
+      stalling.stop(true);
+    }
+  });
+
+  test('a revoked token is refreshed once', async () => {
+    const client = newClient();
+    await callTool('pets.get', { id: 1001 }, client);
+    mock.revokeTokens();
+
+    const { result } = await callTool('pets.get', { id: 1002 }, client);
+
+    expect(result.structuredContent.animal.name).toBe('Pepper');
+    // One token for the first call, one refresh after the revocation
+    expect(mock.requests.filter((request) => request.path === '/oauth2/token')).toHaveLength(2);
+  });
+
+  test('transient 429 and 500 responses are retried', async () => {
+    mock.injectError('/animals/1003', { status: 429, retryAfter: 0 });
+    mock.injectError('/animals/1003', { status: 500 });
+
+    const { result } = await callTool('pets.get', { id: 1003 });
+
+    expect(result.structuredContent.animal.name).toBe('Moose');
+    expect(mock.requests.filter((request) => request.path === '/animals/1003')).toHaveLength(3);
+  });
+
+  test('persistent rate limiting maps to -32004', async () => {
+    mock.injectError('/animals/1004', { status: 429, retryAfter: 0, times: 10 });
+
+    const { error } = await callTool('pets.get', { id: 1004 });
+
+    expect(error.code).toBe(-32004);
+  });
+});
+
+describe('request correlation', () => {
+  test('a caller-supplied X-Request-Id is echoed, otherwise one is generated', async () => {
+    const supplied = await fetch(`http://localhost:${server.port}/healthz`, {
+      headers: { 'X-Request-Id': 'trace-123' },
+    });
+    const generated = await fetch(`http://localhost:${server.port}/healthz`, {
+      headers: { 'X-Request-Id': 'not a valid id!' },
+    });
+
+    expect(supplied.headers.get('x-request-id')).toBe('trace-123');
+    expect(generated.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe('operational endpoints', () => {
+  test('/metrics exposes tool, upstream, token and error counters', async () => {
+    await callTool('pets.get', { id: 1001 });
+    await callTool('pets.get', { id: 999999 });
+
+    const response = await fetch(`http://localhost:${server.port}/metrics`);
+    const body = await response.text();
+
+    expect(response.headers.get('content-type')).toStartWith('text/plain');
+    expect(body).toContain('petfinder_mcp_tool_calls_total{tool="pets.get",outcome="ok"}');
+    expect(body).toContain('petfinder_mcp_tool_calls_total{tool="pets.get",outcome="error"}');
+    expect(body).toContain('petfinder_mcp_tool_call_duration_seconds_bucket{tool="pets.get",le="+Inf"}');
+    expect(body).toContain('petfinder_mcp_upstream_responses_total{status="404"}');
+    expect(body).toContain('petfinder_mcp_token_refreshes_total{outcome="success"}');
+    expect(body).toContain('petfinder_mcp_jsonrpc_errors_total{code="-32003"}');
+    expect(body).toMatch(/petfinder_mcp_token_cache_size \d+/);
+    expect(body).toContain('petfinder_mcp_requests_in_flight 1');
+  });
+
+  test('/readyz is ready when no probe credential is configured', async () => {
+    const response = await fetch(`http://localhost:${server.port}/readyz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ready', checks: { upstream_oauth: { status: 'skipped' } } });
+  });
+});
+
+describe('inbound rate limits', () => {
+  const defaults = { perClient: 120, perIP: 300, perTool: 60, dailyQuota: 0 };
+
+  afterEach(() => {
+    setInboundRateLimits(defaults);
+  });
+
+  test('per-tool limits map to -32004 with retry information', async () => {
+    setInboundRateLimits({ perTool: 1 });
+    const client = newClient();
+
+    const first = await callTool('pets.get', { id: 1001 }, client);
+    const second = await callTool('pets.get', { id: 1002 }, client);
+    const otherTool = await callTool('types.list', {}, client);
+
+    expect(first.error).toBeUndefined();
+    expect(second.error.code).toBe(-32004);
+    expect(second.error.data).toMatchObject({ status: 429, scope: 'tool' });
+    expect(second.error.data.retry_after).toBeGreaterThan(0);
+    expect(otherTool.error).toBeUndefined();
+  });
+
+  test('the daily quota is charged per client ID', async () => {
+    setInboundRateLimits({ dailyQuota: 1 });
+    const client = newClient();
+
+    await callTool('pets.get', { id: 1001 }, client);
+    const { error } = await callTool('types.list', {}, client);
+    const other = await callTool('types.list');
+
+    expect(error.data.scope).toBe('daily_quota');
+    expect(other.error).toBeUndefined();
+  });
+
+  test('calls with a wrong secret are not charged to the client ID', async () => {
+    setInboundRateLimits({ perTool: 1, dailyQuota: 1 });
+    const victim = newClient();
+
+    const attack = await callTool('pets.get', { id: 1001 }, { ...victim, clientSecret: 'WRONG' });
+    const { error } = await callTool('pets.get', { id: 1001 }, victim);
+
+    expect(attack.error.code).toBe(-32001);
+    expect(error).toBeUndefined();
+  });
+
+  test('resource reads and prompts are charged like tool calls', async () => {
+    setInboundRateLimits({ dailyQuota: 2 });
+    const client = newClient();
+
+    const first = await rpc('resources/read', { uri: 'petfinder://animals/1001' }, client);
+    const prompt = await rpc('prompts/get', { name: 'compare-pets', arguments: { ids: '1001,1002' } }, client);
+    const { error } = await rpc('resources/read', { uri: 'petfinder://animals/1001' }, client);
+
+    expect(first.error).toBeUndefined();
+    expect(prompt.error).toBeUndefined();
+    expect(error.code).toBe(-32004);
+    expect(error.data.scope).toBe('daily_quota');
+  });
+
+  test('per-IP limits reject the HTTP request with 429 and Retry-After', async () => {
+    setInboundRateLimits({ perIP: 1 });
+
+    await rpc('tools/list');
+    const response = await fetch(`http://localhost:${server.port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }),
+    });
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(body.error).toMatchObject({ code: -32004, data: { scope: 'ip' } });
+  });
+
+  test('preflight lists the credential headers explicitly', async () => {
+    const response = await fetch(`http://localhost:${server.port}/mcp`, { method: 'OPTIONS' });
+    const allowed = response.headers.get('access-control-allow-headers')!.split(', ');
+
+    expect(allowed).toContain('Authorization');
+    expect(allowed).toContain('X-Api-Key');
+    expect(allowed).toContain('Mcp-Session-Id');
+    expect(allowed).not.toContain('*');
+  });
+
+  test('requests from origins outside the CORS allowlist are refused', async () => {
+    const response = await fetch(`http://localhost:${server.port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://evil.example' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
+
+describe('tool registry', () => {
+  afterEach(() => {
+    setToolSelection({});
+  });
+
+  test('tools/list carries annotations and rejects unknown cursors', async () => {
+    const { result } = await rpc('tools/list');
+    const byName = new Map(result.tools.map((tool: any) => [tool.name, tool]));
+
+    expect(result.nextCursor).toBeUndefined();
+    expect((byName.get('pets.get') as any).annotations).toMatchObject({ readOnlyHint: true, openWorldHint: true });
+    expect((byName.get('favorites.remove') as any).annotations).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    });
+
+    const { error } = await rpc('tools/list', { cursor: 'not-a-cursor' });
+    expect(error.code).toBe(-32602);
+  });
+
+  test('disabling tools hides them and notifies open sessions', async () => {
+    const auth = basicAuth(newClient());
+    const initialize = await fetch(`http://localhost:${server.port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...auth },
+      body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'initialize', params: {} }),
+    });
+    const sessionId = initialize.headers.get('mcp-session-id')!;
+    const stream = await fetch(`http://localhost:${server.port}/mcp`, {
+      headers: { ...auth, Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+    });
+    const reader = stream.body!.getReader();
+
+    setToolSelection({ disabled: ['favorites.*'] });
+
+    let events = '';
+    while (!events.includes('notifications/tools/list_changed')) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      events += new TextDecoder().decode(value);
+    }
+    await reader.cancel();
+
+    const { result } = await rpc('tools/list');
+    const names = result.tools.map((tool: any) => tool.name);
+    expect(events).toContain('notifications/tools/list_changed');
+    expect(names).toContain('pets.search');
+    expect(names.some((name: string) => name.startsWith('favorites.'))).toBe(false);
+    expect((await callTool('favorites.list')).error.code).toBe(-32601);
+  });
+});
+
+describe('streamable HTTP sessions', () => {
+  afterEach(() => {
+    setToolSelection({});
+  });
+
+  const owner = newClient();
+
+  // Sent with the owner's credentials unless another client (or none) is given
+  function mcp(headers: Record<string, string>, init: RequestInit = {}, client: typeof owner | null = owner) {
+    return fetch(`http://localhost:${server.port}/mcp`, {
+      ...init,
+      headers: { ...(client ? basicAuth(client) : {}), ...headers },
+    });
+  }
+
+  async function initialize(protocolVersion?: string) {
+    const response = await mcp(
+      { 'Content-Type': 'application/json' },
+      {
+        method: 'POST',
+        body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'initialize', params: { protocolVersion } }),
+      }
+    );
+    return { sessionId: response.headers.get('mcp-session-id')!, body: (await response.json()) as any };
+  }
+
+  // Reads SSE frames until `text` shows up, then closes the stream
+  async function readStreamUntil(response: Response, text: string) {
+    const reader = response.body!.getReader();
+    let events = '';
+    while (!events.includes(text)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      events += new TextDecoder().decode(value);
+    }
+    await reader.cancel();
+    return events;
+  }
+
+  test('initialize opens a session and negotiates the protocol version', async () => {
+    const requested = await initialize('2025-03-26');
+    const unknown = await initialize('1999-01-01');
+
+    expect(requested.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(requested.body.result.protocolVersion).toBe('2025-03-26');
+    expect(unknown.body.result.protocolVersion).toBe('2025-06-18');
+
+    const followUp = await mcp(
+      { 'Content-Type': 'application/json', 'Mcp-Session-Id': requested.sessionId },
+      { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }) }
+    );
+    expect(followUp.status).toBe(200);
+    expect(followUp.headers.get('mcp-session-id')).toBe(requested.sessionId);
+    expect(((await followUp.json()) as any).result.tools.length).toBeGreaterThan(0);
+  });
+
+  test('GET opens an SSE stream that carries server notifications', async () => {
+    const { sessionId } = await initialize();
+
+    expect((await mcp({ Accept: 'text/event-stream' })).status).toBe(400);
+    expect((await mcp({ 'Mcp-Session-Id': sessionId })).status).toBe(406);
+
+    const stream = await mcp({ Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+
+    setToolSelection({ disabled: ['favorites.*'] });
+    const events = await readStreamUntil(stream, 'list_changed');
+
+    expect(events).toMatch(/id: \d+\nevent: message\ndata: .*notifications\/tools\/list_changed/);
+  });
+
+  test('reconnecting with Last-Event-ID replays only the missed events', async () => {
+    const { sessionId } = await initialize();
+
+    // Two events are buffered while no stream is open
+    setToolSelection({ disabled: ['favorites.*'] });
+    setToolSelection({});
+
+    const replay = await mcp({ Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Last-Event-ID': '1' });
+    const events = await readStreamUntil(replay, 'id: 2');
+
+    expect(events).toContain('id: 2\n');
+    expect(events).not.toContain('id: 1\n');
+  });
+
+  test('DELETE ends the session and later requests get 404', async () => {
+    const { sessionId } = await initialize();
+
+    const deleted = await mcp({ 'Mcp-Session-Id': sessionId }, { method: 'DELETE' });
+    const after = await mcp(
+      { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId },
+      { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }) }
+    );
+
+    expect(deleted.status).toBe(204);
+    expect(after.status).toBe(404);
+  });
+
+  test('a session only answers to the credentials that opened it', async () => {
+    const { sessionId } = await initialize();
+    const ping = JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' });
+    const headers = { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId };
+
+    const otherTenant = await mcp(headers, { method: 'POST', body: ping }, newClient());
+    const wrongSecret = await mcp(headers, { method: 'POST', body: ping }, { ...owner, clientSecret: 'WRONG' });
+    const anonymousStream = await mcp({ Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }, {}, null);
+    const otherDelete = await mcp({ 'Mcp-Session-Id': sessionId }, { method: 'DELETE' }, newClient());
+
+    expect(otherTenant.status).toBe(404);
+    expect(wrongSecret.status).toBe(404);
+    expect(anonymousStream.status).toBe(404);
+    expect(otherDelete.status).toBe(404);
+    expect((await mcp(headers, { method: 'POST', body: ping })).status).toBe(200);
+  });
+
+  test('initialize without credentials opens no session', async () => {
+    const response = await mcp(
+      { 'Content-Type': 'application/json' },
+      { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'initialize', params: {} }) },
+      null
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeNull();
+  });
+
+  test('an unknown session ID is a 404', async () => {
+    const response = await mcp(
+      { 'Content-Type': 'application/json', 'Mcp-Session-Id': crypto.randomUUID() },
+      { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }) }
+    );
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(404);
+    expect(body.error.code).toBe(-32003);
+  });
+
+  test('an unsupported MCP-Protocol-Version header is rejected', async () => {
+    const response = await mcp(
+      { 'Content-Type': 'application/json', 'MCP-Protocol-Version': '1999-01-01' },
+      { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method: 'tools/list' }) }
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+// Runs the server with --stdio in a child process, sends `messages` and
+// closes stdin; the child exits once every reply has been written
+async function runStdio(messages: unknown[], env: Record<string, string> = {}) {
+  const { clientId, clientSecret } = newClient();
+  const proc = Bun.spawn(['bun', 'simple-mcp-server.ts', '--stdio'], {
+    cwd: import.meta.dir,
+    env: {
+      ...process.env,
+      PETFINDER_BASE_URL: mock.url,
+      PETFINDER_CLIENT_ID: clientId,
+      PETFINDER_CLIENT_SECRET: clientSecret,
+      SAVED_SEARCHES_PATH: ':memory:',
+      FAVORITES_PATH: ':memory:',
+      ...env,
+    },
+    stdin: 'pipe',
+    stdout: 'pipe',
+    stderr: 'pipe',
+  });
+
+  proc.stdin.write(messages.map((message) => `${JSON.stringify(message)}\n`).join(''));
+  proc.stdin.end();
+
+  // Guard against a hung child so the suite always finishes
+  const timer = setTimeout(() => proc.kill(), 10_000);
+  const [stdout, stderr] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text()]);
+  await proc.exited;
+  clearTimeout(timer);
+
+  return { stdout, stderr };
+}
+
+describe('stdio transport', () => {
+  test('stdout carries only JSON-RPC while logs go to stderr', async () => {
+    const { stdout, stderr } = await runStdio(
+      [
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'pets.get', arguments: { id: 1001 } } },
+      ],
+      { LOG_FORMAT: 'pretty', LOG_LEVEL: 'debug' }
+    );
+
+    const lines = stdout.trim().split('\n');
+    const replies = lines.map((line) => JSON.parse(line));
+
+    expect(replies.every((reply) => reply.jsonrpc === '2.0')).toBe(true);
+    expect(replies.map((reply) => reply.id)).toEqual(expect.arrayContaining([1, 2]));
+    expect(replies.find((reply) => reply.id === 2).result.structuredContent.animal.id).toBe(1001);
+    expect(stderr).toContain('Listening');
+    expect(stderr).toContain('Petfinder MCP Server starting');
+  });
+});
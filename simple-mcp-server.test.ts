@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  EncryptedFileTokenStore,
+  getCacheStats,
+  handleMCPRequest,
+  MemoryCacheStore,
+  setCacheStore,
+  setTokenStore,
+} from './simple-mcp-server.ts';
+
+const originalFetch = globalThis.fetch;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function credentials(clientId: string, clientSecret: string) {
+  return { clientId, clientSecret };
+}
+
+function callTool(id: number, name: string, args: any = {}) {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } };
+}
+
+beforeEach(() => {
+  // Fake Petfinder: tokens are derived from the client ID, and every animal
+  // lookup echoes back the token it was authorized with. Responses are delayed
+  // by varying amounts so calls from different tenants interleave.
+  globalThis.fetch = mock(async (input: any, init?: any) => {
+    const url = new URL(input.toString());
+
+    if (url.pathname.endsWith('/oauth2/token')) {
+      const form = new URLSearchParams(init.body);
+      await sleep(Math.random() * 10);
+      return Response.json({
+        token_type: 'Bearer',
+        expires_in: 3600,
+        access_token: `token-for-${form.get('client_id')}`,
+      });
+    }
+
+    await sleep(Math.random() * 10);
+    return Response.json({
+      animal: {
+        id: Number(url.pathname.split('/').pop()),
+        authorizedAs: init.headers.Authorization,
+      },
+    });
+  }) as any;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+test('concurrent tool calls keep each tenant on its own credentials', async () => {
+  const tenants = ['alpha', 'bravo', 'charlie'];
+  const calls = Array.from({ length: 30 }, (_, i) => {
+    const tenant = tenants[i % tenants.length]!;
+    return handleMCPRequest(
+      callTool(i, 'pets.get', { id: i + 1 }),
+      credentials(tenant, `${tenant}-secret`)
+    ).then((response) => ({ tenant, response }));
+  });
+
+  for (const { tenant, response } of await Promise.all(calls)) {
+    expect(response?.error).toBeUndefined();
+    const payload = response!.result.structuredContent;
+    expect(payload.animal.authorizedAs).toBe(`Bearer token-for-${tenant}`);
+  }
+});
+
+test('a tool call without credentials is rejected while others are in flight', async () => {
+  const [authorized, anonymous] = await Promise.all([
+    handleMCPRequest(callTool(1, 'pets.get', { id: 7 }), credentials('delta', 'delta-secret')),
+    handleMCPRequest(callTool(2, 'pets.get', { id: 8 }), {}),
+  ]);
+
+  expect(authorized?.error).toBeUndefined();
+  expect(anonymous?.error?.code).toBe(-32001);
+});
+
+describe('response cache', () => {
+  afterEach(() => {
+    setSystemTime();
+    setCacheStore(new MemoryCacheStore(1000));
+  });
+
+  // Upstream lookups of one animal, ignoring token requests
+  function animalFetches(id: number) {
+    return (globalThis.fetch as any).mock.calls.filter(([input]: [any]) =>
+      new URL(input.toString()).pathname.endsWith(`/animals/${id}`)
+    ).length;
+  }
+
+  test('entries are fresh for their TTL, then served stale while revalidating', async () => {
+    const start = Date.now();
+    const client = credentials('cache-ttl', 'cache-ttl-secret');
+
+    await handleMCPRequest(callTool(1, 'pets.get', { id: 501 }), client);
+    await handleMCPRequest(callTool(2, 'pets.get', { id: 501 }), client);
+    expect(animalFetches(501)).toBe(1);
+
+    // Past the 300s animal TTL but inside the 60s stale window
+    setSystemTime(new Date(start + 330_000));
+    const staleHits = getCacheStats().staleHits;
+    const stale = await handleMCPRequest(callTool(3, 'pets.get', { id: 501 }), client);
+    expect(stale?.error).toBeUndefined();
+    expect(getCacheStats().staleHits).toBe(staleHits + 1);
+    await sleep(30);
+    expect(animalFetches(501)).toBe(2);
+
+    // The revalidated entry is fresh again
+    await handleMCPRequest(callTool(4, 'pets.get', { id: 501 }), client);
+    expect(animalFetches(501)).toBe(2);
+
+    // Beyond both windows the entry is a plain miss
+    setSystemTime(new Date(start + 330_000 + 400_000));
+    const misses = getCacheStats().misses;
+    await handleMCPRequest(callTool(5, 'pets.get', { id: 501 }), client);
+    expect(getCacheStats().misses).toBe(misses + 1);
+    expect(animalFetches(501)).toBe(3);
+  });
+
+  test('the least recently used entry is evicted at the size cap', async () => {
+    setCacheStore(new MemoryCacheStore(2));
+    const client = credentials('cache-lru', 'cache-lru-secret');
+    const evictions = getCacheStats().evictions;
+
+    await handleMCPRequest(callTool(1, 'pets.get', { id: 601 }), client);
+    await handleMCPRequest(callTool(2, 'pets.get', { id: 602 }), client);
+    await handleMCPRequest(callTool(3, 'pets.get', { id: 601 }), client); // 601 is now most recent
+    await handleMCPRequest(callTool(4, 'pets.get', { id: 603 }), client); // evicts 602
+
+    expect(getCacheStats().evictions).toBe(evictions + 1);
+    await handleMCPRequest(callTool(5, 'pets.get', { id: 601 }), client);
+    await handleMCPRequest(callTool(6, 'pets.get', { id: 602 }), client);
+    expect(animalFetches(601)).toBe(1);
+    expect(animalFetches(602)).toBe(2);
+  });
+});
+
+describe('access tokens', () => {
+  afterEach(() => {
+    setSystemTime();
+    setTokenStore(undefined);
+  });
+
+  function tokenFetches(clientId: string) {
+    return (globalThis.fetch as any).mock.calls.filter(
+      ([input, init]: [any, any]) =>
+        new URL(input.toString()).pathname.endsWith('/oauth2/token') &&
+        new URLSearchParams(init.body).get('client_id') === clientId
+    ).length;
+  }
+
+  test('concurrent calls with the same credentials share one token request', async () => {
+    const client = credentials('token-shared', 'token-shared-secret');
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) => handleMCPRequest(callTool(i, 'pets.get', { id: 700 + i }), client))
+    );
+
+    expect(tokenFetches('token-shared')).toBe(1);
+  });
+
+  test('a token close to expiry is still used while a new one is fetched', async () => {
+    const start = Date.now();
+    const client = credentials('token-early', 'token-early-secret');
+    await handleMCPRequest(callTool(1, 'pets.get', { id: 801 }), client);
+
+    // Inside the 300s refresh margin of the 3600s token
+    setSystemTime(new Date(start + 3_400_000));
+    const response = await handleMCPRequest(callTool(2, 'pets.get', { id: 802 }), client);
+    expect(response?.error).toBeUndefined();
+    await sleep(30);
+    expect(tokenFetches('token-early')).toBe(2);
+
+    await handleMCPRequest(callTool(3, 'pets.get', { id: 803 }), client);
+    expect(tokenFetches('token-early')).toBe(2);
+  });
+
+  test('token saves never overlap', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const saved: number[] = [];
+    setTokenStore({
+      load: async () => ({}),
+      save: async (tokens) => {
+        maxActive = Math.max(maxActive, ++active);
+        await sleep(5);
+        saved.push(Object.keys(tokens).length);
+        active--;
+      },
+    });
+
+    await Promise.all(
+      ['save-a', 'save-b', 'save-c'].map((tenant, i) =>
+        handleMCPRequest(callTool(i, 'pets.get', { id: 900 + i }), credentials(tenant, `${tenant}-secret`))
+      )
+    );
+    await sleep(50);
+
+    expect(maxActive).toBe(1);
+    expect(saved).toHaveLength(3);
+  });
+
+  test('the encrypted file store round-trips tokens without storing them in the clear', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'petfinder-tokens-'));
+    const path = join(dir, 'tokens.enc');
+    const tokens = { key: { client_id: 'abc', access_token: 'very-secret-token', expires_at: 123 } };
+
+    try {
+      await new EncryptedFileTokenStore(path, 'passphrase').save(tokens);
+
+      expect(readFileSync(path, 'utf8')).not.toContain('very-secret-token');
+      expect(existsSync(`${path}.tmp`)).toBe(false);
+      expect(await new EncryptedFileTokenStore(path, 'passphrase').load()).toEqual(tokens);
+      await expect(new EncryptedFileTokenStore(path, 'wrong-passphrase').load()).rejects.toThrow();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
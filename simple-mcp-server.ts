@@ -11,696 +11,4576 @@
  * 4. Input Validation - Using Zod schemas
  */
 
-import { serve } from 'bun';
+import { RedisClient, serve, type Server } from 'bun';
+import { Database } from 'bun:sqlite';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
 import { z } from 'zod';
 
 // =============================================================================
-// ENVIRONMENT & CONFIGURATION
+// LOGGING - JSON lines with levels, correlation IDs and secret redaction
 // =============================================================================
 
-// No global credentials needed - we'll pass them through the call chain
+// In stdio mode stdout carries the JSON-RPC stream, so every log line must
+// go to stderr instead
+const STDIO_MODE = process.argv.includes('--stdio');
+if (STDIO_MODE) {
+  console.log = console.error;
+}
 
-console.log('🔧 Petfinder MCP Server starting...');
-console.log('🔑 Authentication via query parameters: client-id and client-secret');
-console.log('🏢 Multi-client support: Each client ID gets its own token cache');
-const PETFINDER_BASE = 'https://api.petfinder.com/v2';
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogFields = Record<string, unknown>;
 
-// =============================================================================
-// OAUTH TOKEN MANAGEMENT - Petfinder Client Credentials Flow
-// =============================================================================
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const requestedLogLevel = process.env.LOG_LEVEL?.toLowerCase() ?? 'info';
+const LOG_LEVEL: LogLevel = requestedLogLevel in LOG_LEVELS ? (requestedLogLevel as LogLevel) : 'info';
 
-interface TokenCache {
-  access_token: string;
-  expires_at: number; // Unix timestamp
+// "pretty" is for local development: readable lines plus the emoji banners
+const LOG_PRETTY = process.env.LOG_FORMAT === 'pretty';
+const PRETTY_ICONS: Record<LogLevel, string> = { debug: '🔍', info: '💬', warn: '⚠️', error: '❌' };
+
+// What a tools/call touched upstream, collected while it runs
+interface ToolCallStats {
+  upstreamStatuses: number[];
+  cacheOutcomes: string[];
 }
 
-// Per-client token cache - supports multiple clients with different credentials
-const tokenCache = new Map<string, TokenCache>();
+// Per-request state that follows async work without being threaded by hand
+interface LogContext {
+  requestId?: string;
+  toolCall?: ToolCallStats;
+}
 
-function cleanupExpiredTokens() {
-  const now = Math.floor(Date.now() / 1000);
-  let cleanedCount = 0;
-  
-  for (const [clientId, token] of tokenCache.entries()) {
-    if (token.expires_at <= now) {
-      tokenCache.delete(clientId);
-      cleanedCount++;
-      console.log(`🧹 Cleaned up expired token for client: ${clientId}`);
-    }
+const logContext = new AsyncLocalStorage<LogContext>();
+
+function writeLogLine(line: string) {
+  (STDIO_MODE ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+function writeLog(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LOG_LEVELS[level] < LOG_LEVELS[LOG_LEVEL]) {
+    return;
   }
-  
-  if (cleanedCount > 0) {
-    console.log(`🧹 Cleaned up ${cleanedCount} expired tokens. Active tokens: ${tokenCache.size}`);
+
+  const requestId = logContext.getStore()?.requestId;
+  const entries = Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, value instanceof Error ? value.message : value])
+  );
+
+  if (LOG_PRETTY) {
+    const details = Object.keys(entries).length > 0 ? ` ${JSON.stringify(entries)}` : '';
+    writeLogLine(`${PRETTY_ICONS[level]} ${requestId ? `[${requestId.slice(0, 8)}] ` : ''}${message}${details}`);
+    return;
   }
+
+  writeLogLine(
+    JSON.stringify({ time: new Date().toISOString(), level, msg: message, request_id: requestId, ...entries })
+  );
 }
 
-async function getAccessToken(clientId: string, clientSecret: string): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
-  
-  if (!clientId || !clientSecret) {
-    throw new Error('Missing Petfinder credentials. Provide client-id and client-secret query parameters.');
-  }
-  
-  // Clean up expired tokens periodically
-  cleanupExpiredTokens();
-  
-  // Check if we have a valid cached token for this client
-  const cachedToken = tokenCache.get(clientId);
-  if (cachedToken && cachedToken.expires_at > now + 60) {
-    console.log(`🔄 Using cached token for client: ${clientId}`);
-    return cachedToken.access_token;
+const log = {
+  debug: (message: string, fields?: LogFields) => writeLog('debug', message, fields),
+  info: (message: string, fields?: LogFields) => writeLog('info', message, fields),
+  warn: (message: string, fields?: LogFields) => writeLog('warn', message, fields),
+  error: (message: string, fields?: LogFields) => writeLog('error', message, fields),
+};
+
+// Startup chatter for a human watching the console - skipped in JSON mode
+function banner(text: string) {
+  if (LOG_PRETTY) {
+    writeLogLine(text);
   }
+}
 
-  console.log('🔄 Requesting new Petfinder access token...');
-  console.log(`🔑 Using Client ID: ${clientId}`);
-  
-  const response = await fetch(`${PETFINDER_BASE}/oauth2/token`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'client_credentials',
-      client_id: clientId,
-      client_secret: clientSecret,
-    }),
-  });
+// Redaction policy: these headers, and any query parameter or body field
+// whose name looks like a credential, are masked before they are logged
+const REDACTED_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'x-api-key']);
+const SECRET_FIELD_PATTERN = /secret|password|token|api[-_]?key|authorization/i;
+const REDACTED = '[REDACTED]';
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new PetfinderAPIError(
-      response.status,
-      response.statusText,
-      errorText,
-      `OAuth token request failed (${response.status}): ${errorText}`
+function isSecretField(name: string): boolean {
+  return SECRET_FIELD_PATTERN.test(name);
+}
+
+function redactHeaders(headers: Headers): Record<string, string> {
+  return Object.fromEntries(
+    [...headers].map(([key, value]) => [
+      key,
+      REDACTED_HEADERS.has(key.toLowerCase()) || isSecretField(key)
+        ? REDACTED
+        : key.toLowerCase() === 'referer'
+          ? redactURLString(value)
+          : value,
+    ])
+  );
+}
+
+// Deep copy of a parsed JSON body with credential-like fields masked
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, isSecretField(key) ? REDACTED : redactValue(entry)])
     );
   }
+  return value;
+}
 
-  const tokenData = await response.json() as {
-    token_type: string;
-    expires_in: number;
-    access_token: string;
-  };
+// Renders a URL's query string with secret values masked, for logging
+function redactQueryString(url: URL): string {
+  if (!url.search) {
+    return '';
+  }
 
-  // Cache the token for this specific client
-  const newToken: TokenCache = {
-    access_token: tokenData.access_token,
-    expires_at: now + tokenData.expires_in,
-  };
-  
-  tokenCache.set(clientId, newToken);
+  const params = [...url.searchParams].map(([key, value]) => {
+    const shown = isSecretField(key) ? REDACTED : encodeURIComponent(value);
+    return `${encodeURIComponent(key)}=${shown}`;
+  });
+  return `?${params.join('&')}`;
+}
 
-  console.log(`✅ New access token obtained for client ${clientId}, expires in ${tokenData.expires_in} seconds`);
-  console.log(`📊 Total cached tokens: ${tokenCache.size}`);
-  
-  return newToken.access_token;
+function redactURLString(value: string): string {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}${redactQueryString(url)}`;
+  } catch {
+    return value;
+  }
+}
+
+// Feeds the per-call log line written when a tools/call finishes
+function recordUpstreamStatus(status: number) {
+  logContext.getStore()?.toolCall?.upstreamStatuses.push(status);
+}
+
+function recordCacheOutcome(outcome: string) {
+  logContext.getStore()?.toolCall?.cacheOutcomes.push(outcome);
 }
 
 // =============================================================================
-// INPUT VALIDATION SCHEMAS
+// METRICS - Prometheus text exposition for /metrics
 // =============================================================================
 
-const animalSearchSchema = z.object({
-  type: z.enum(['dog', 'cat', 'small-furry', 'bird', 'scales-fins-other', 'barnyard', 'rabbit', 'horse']).optional(),
-  breed: z.array(z.string()).optional(),
-  size: z.array(z.enum(['small', 'medium', 'large', 'extra-large'])).optional(),
-  gender: z.array(z.enum(['male', 'female', 'unknown'])).optional(),
-  age: z.array(z.enum(['baby', 'young', 'adult', 'senior'])).optional(),
-  color: z.array(z.string()).optional(),
-  coat: z.array(z.enum(['short', 'medium', 'long', 'wire', 'hairless', 'curly'])).optional(),
-  status: z.enum(['adoptable', 'adopted', 'found']).optional().default('adoptable'),
-  name: z.string().optional(),
-  organization: z.array(z.string()).optional(),
-  location: z.string().optional(),
-  distance: z.number().int().positive().optional(),
-  sort: z.enum(['recent', '-recent', 'distance', '-distance', 'random']).optional().default('recent'),
-  page: z.number().int().min(1).optional().default(1),
-  limit: z.number().int().min(1).max(100).optional().default(20),
-});
-
-const animalGetSchema = z.object({
-  id: z.number().int().positive(),
-});
+type MetricLabels = Record<string, string>;
 
-const organizationSearchSchema = z.object({
-  name: z.string().optional(),
-  location: z.string().optional(),
-  distance: z.number().int().positive().optional(),
-  country: z.string().optional(),
-  state: z.string().optional(),
-  query: z.string().optional(),
-  sort: z.enum(['distance', '-distance', 'name', '-name', 'country', '-country', 'state', '-state']).optional(),
-  page: z.number().int().min(1).optional().default(1),
-  limit: z.number().int().min(1).max(100).optional().default(20),
-});
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
 
-const organizationGetSchema = z.object({
-  id: z.string(),
-});
+interface Metric {
+  render(): string[];
+}
 
-const animalTypesSchema = z.object({});
+class Counter implements Metric {
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
 
-const animalTypeSchema = z.object({
-  type: z.string(),
-});
+  constructor(readonly name: string, readonly help: string) {}
 
-const animalBreedsSchema = z.object({
-  type: z.string(),
-});
+  inc(labels: MetricLabels = {}, by = 1) {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
 
-// =============================================================================
-// PETFINDER API FUNCTIONS - Direct API Wrappers
-// =============================================================================
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
 
-// Context for passing credentials through the request chain
-let requestContext: { clientId?: string; clientSecret?: string } = {};
+// Values read when scraped, so they always match the live state
+class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'gauge' | 'counter',
+    private collect: () => Array<[MetricLabels, number]>
+  ) {}
 
-async function petfinderRequest(endpoint: string, params?: Record<string, any>) {
-  const { clientId, clientSecret } = requestContext;
-  
-  if (!clientId || !clientSecret) {
-    throw new Error('Request context missing credentials');
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.collect().map(([labels, value]) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
   }
-  
-  const token = await getAccessToken(clientId, clientSecret);
-  
-  let url = `${PETFINDER_BASE}${endpoint}`;
-  if (params) {
-    const searchParams = new URLSearchParams();
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        if (Array.isArray(value)) {
-          value.forEach(v => searchParams.append(key, v.toString()));
-        } else {
-          searchParams.append(key, value.toString());
-        }
-      }
+}
+
+class Histogram implements Metric {
+  private series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: MetricLabels, value: number) {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]!++;
     });
-    const queryString = searchParams.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
   }
 
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorBody;
-    try {
-      errorBody = JSON.parse(errorText);
-    } catch {
-      errorBody = errorText;
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
     }
-    throw new PetfinderAPIError(
-      response.status,
-      response.statusText,
-      errorBody,
-      `Petfinder API error (${response.status}): ${errorText}`
-    );
+    return lines;
   }
-
-  return response.json();
 }
 
-async function searchAnimals(params: z.infer<typeof animalSearchSchema>) {
-  return await petfinderRequest('/animals', params);
-}
+let requestsInFlight = 0;
 
-async function getAnimal(params: z.infer<typeof animalGetSchema>) {
-  return await petfinderRequest(`/animals/${params.id}`);
-}
+const metrics = {
+  toolCalls: new Counter('petfinder_mcp_tool_calls_total', 'tools/call invocations by tool and outcome'),
+  toolDuration: new Histogram(
+    'petfinder_mcp_tool_call_duration_seconds',
+    'tools/call latency in seconds',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+  ),
+  upstreamResponses: new Counter(
+    'petfinder_mcp_upstream_responses_total',
+    'Petfinder API responses by HTTP status, including retried attempts'
+  ),
+  tokenRefreshes: new Counter('petfinder_mcp_token_refreshes_total', 'OAuth token requests by outcome'),
+  jsonRPCErrors: new Counter('petfinder_mcp_jsonrpc_errors_total', 'JSON-RPC error responses by error code'),
+  rateLimited: new Counter('petfinder_mcp_rate_limited_total', 'Requests rejected by inbound rate limits by scope'),
+};
+
+const collectedMetrics: Metric[] = [
+  new CollectedMetric('petfinder_mcp_requests_in_flight', 'MCP requests currently being handled', 'gauge', () => [
+    [{}, requestsInFlight],
+  ]),
+  new CollectedMetric('petfinder_mcp_token_cache_size', 'Access tokens currently cached', 'gauge', () => [
+    [{}, tokenCache.size],
+  ]),
+  new CollectedMetric('petfinder_mcp_sessions', 'Open Streamable HTTP sessions', 'gauge', () => [[{}, sessions.size]]),
+  new CollectedMetric(
+    'petfinder_mcp_response_cache_events_total',
+    'Response cache hits, misses, stale hits and evictions',
+    'counter',
+    () => Object.entries(cacheStats).map(([event, value]) => [{ event }, value])
+  ),
+];
 
-async function searchOrganizations(params: z.infer<typeof organizationSearchSchema>) {
-  return await petfinderRequest('/organizations', params);
+function renderMetrics(): string {
+  return [...Object.values(metrics), ...collectedMetrics].flatMap((metric) => metric.render()).join('\n') + '\n';
 }
 
-async function getOrganization(params: z.infer<typeof organizationGetSchema>) {
-  return await petfinderRequest(`/organizations/${params.id}`);
+function recordJSONRPCError(code: number) {
+  metrics.jsonRPCErrors.inc({ code: String(code) });
 }
 
-async function getAnimalTypes() {
-  return await petfinderRequest('/types');
+// =============================================================================
+// ENVIRONMENT & CONFIGURATION
+// =============================================================================
+
+// No global credentials needed - we'll pass them through the call chain
+
+// Query-string secrets leak into proxy logs and browser history - operators
+// can turn them off once every client has moved to headers or API keys
+const ALLOW_QUERY_CREDENTIALS = process.env.ALLOW_QUERY_CREDENTIALS !== 'false';
+
+// Optional vault of opaque API keys mapped to Petfinder credentials, either
+// inline JSON or a JSON file that is re-read whenever it changes
+const PETFINDER_API_KEYS = process.env.PETFINDER_API_KEYS;
+const PETFINDER_API_KEYS_FILE = process.env.PETFINDER_API_KEYS_FILE;
+
+banner('🔧 Petfinder MCP Server starting...');
+if (STDIO_MODE) {
+  banner('🔑 Authentication via environment: PETFINDER_CLIENT_ID and PETFINDER_CLIENT_SECRET');
+} else {
+  banner('🔑 Authentication via API key, Authorization: Basic, or X-Petfinder-Client-Id/-Secret headers');
+  banner(
+    ALLOW_QUERY_CREDENTIALS
+      ? '🔑 Query parameter credentials (client-id/client-secret) are enabled'
+      : '🚫 Query parameter credentials are disabled'
+  );
 }
+banner('🏢 Multi-client support: Each client ID gets its own token cache');
+log.info('Server starting', {
+  transport: STDIO_MODE ? 'stdio' : 'http',
+  query_credentials: STDIO_MODE ? undefined : ALLOW_QUERY_CREDENTIALS,
+  log_level: LOG_LEVEL,
+});
 
-async function getAnimalType(params: z.infer<typeof animalTypeSchema>) {
-  return await petfinderRequest(`/types/${params.type}`);
+// Upstream API root - point it at a Petfinder-compatible mock for offline
+// development and tests (see mock/petfinder-server.ts)
+let petfinderBase = (process.env.PETFINDER_BASE_URL ?? 'https://api.petfinder.com/v2').replace(/\/+$/, '');
+if (process.env.PETFINDER_BASE_URL) {
+  log.info('Using custom Petfinder API', { base_url: petfinderBase });
 }
 
-async function getAnimalBreeds(params: z.infer<typeof animalBreedsSchema>) {
-  return await petfinderRequest(`/types/${params.type}/breeds`);
+// The set* exports across this file let embedders and tests swap settings
+// and backends at runtime instead of going through the environment
+export function setPetfinderBaseURL(url: string) {
+  petfinderBase = url.replace(/\/+$/, '');
 }
 
+// Pause between the page requests of any multi-page crawl, so one call can't
+// burn through the upstream rate limit
+const UPSTREAM_PAGE_DELAY_MS = parseInt(process.env.UPSTREAM_PAGE_DELAY_MS ?? '250', 10);
+
+// Page ceilings, one per feature that crawls: pets.search_all, pets.search
+// with client-side filters, organizations.profile and saved-search checks
+const SEARCH_ALL_MAX_PAGES = parseInt(process.env.SEARCH_ALL_MAX_PAGES ?? '10', 10);
+const CLIENT_FILTER_MAX_PAGES = parseInt(process.env.CLIENT_FILTER_MAX_PAGES ?? '5', 10);
+const ORGANIZATION_PROFILE_MAX_PAGES = parseInt(process.env.ORGANIZATION_PROFILE_MAX_PAGES ?? '10', 10);
+const SAVED_SEARCH_MAX_PAGES = parseInt(process.env.SAVED_SEARCH_MAX_PAGES ?? '10', 10);
+
+// Response cache: which store to use, how many entries to keep, and how long
+// an expired entry may still be served while it is refreshed in the background
+const CACHE_STORE = process.env.CACHE_STORE ?? 'memory';
+const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES ?? '1000', 10);
+const CACHE_STALE_SECONDS = parseInt(process.env.CACHE_STALE_SECONDS ?? '60', 10);
+
+// Upstream resilience: per-attempt timeout, retry budget for transient
+// failures, and how many requests to hold back before Petfinder's quota resets
+const UPSTREAM_TIMEOUT_MS = parseInt(process.env.UPSTREAM_TIMEOUT_MS ?? '10000', 10);
+const UPSTREAM_MAX_RETRIES = parseInt(process.env.UPSTREAM_MAX_RETRIES ?? '3', 10);
+const UPSTREAM_RETRY_BASE_MS = parseInt(process.env.UPSTREAM_RETRY_BASE_MS ?? '250', 10);
+const UPSTREAM_RETRY_MAX_MS = parseInt(process.env.UPSTREAM_RETRY_MAX_MS ?? '10000', 10);
+const RATE_LIMIT_RESERVE = parseInt(process.env.RATE_LIMIT_RESERVE ?? '5', 10);
+
+// Tokens this close to expiry are refreshed in the background while the
+// current one keeps being used
+const TOKEN_REFRESH_MARGIN_SECONDS = parseInt(process.env.TOKEN_REFRESH_MARGIN_SECONDS ?? '300', 10);
+
+// Optional encrypted on-disk token cache so tokens survive restarts and deploys
+const TOKEN_STORE_PATH = process.env.TOKEN_STORE_PATH;
+const TOKEN_STORE_KEY = process.env.TOKEN_STORE_KEY;
+
+// Saved searches live in a local SQLite file. While a session (or stdio) is
+// open they are re-checked on this interval and new matches are pushed as
+// notifications; 0 turns background checks off
+const SAVED_SEARCHES_PATH = process.env.SAVED_SEARCHES_PATH ?? 'petfinder-searches.sqlite';
+const SAVED_SEARCH_POLL_SECONDS = parseInt(process.env.SAVED_SEARCH_POLL_SECONDS ?? '900', 10);
+
+// Favorites (the per-client shortlist) live in their own SQLite file
+const FAVORITES_PATH = process.env.FAVORITES_PATH ?? 'petfinder-favorites.sqlite';
+
+// Inbound limits protect each client's Petfinder quota from runaway callers:
+// per-minute token buckets (0 disables one) and a per-client daily quota
+const INBOUND_RATE_LIMIT_PER_CLIENT = parseInt(process.env.INBOUND_RATE_LIMIT_PER_CLIENT ?? '120', 10);
+const INBOUND_RATE_LIMIT_PER_IP = parseInt(process.env.INBOUND_RATE_LIMIT_PER_IP ?? '300', 10);
+const INBOUND_RATE_LIMIT_PER_TOOL = parseInt(process.env.INBOUND_RATE_LIMIT_PER_TOOL ?? '60', 10);
+const INBOUND_DAILY_QUOTA = parseInt(process.env.INBOUND_DAILY_QUOTA ?? '0', 10);
+
+// Only trust X-Forwarded-For when a reverse proxy in front of us sets it
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Tool exposure: comma-separated allow/deny lists (entries may end in *), or a
+// JSON file with the same lists that is polled for changes; tools/list pages
+// hold at most TOOLS_LIST_PAGE_SIZE tools
+const TOOLS_ENABLED = process.env.TOOLS_ENABLED;
+const TOOLS_DISABLED = process.env.TOOLS_DISABLED;
+const TOOLS_CONFIG_FILE = process.env.TOOLS_CONFIG_FILE;
+const TOOLS_CONFIG_POLL_MS = parseInt(process.env.TOOLS_CONFIG_POLL_SECONDS ?? '5', 10) * 1000;
+const TOOLS_LIST_PAGE_SIZE = parseInt(process.env.TOOLS_LIST_PAGE_SIZE ?? '50', 10);
+
 // =============================================================================
-// JSON SCHEMA UTILITIES
+// UPSTREAM RESILIENCE - Timeouts, retries with backoff, rate-limit throttling
 // =============================================================================
 
-function zodToMCPSchema(schema: z.ZodObject<any>) {
-  const jsonSchema = z.toJSONSchema(schema) as any;
-  
-  // Fix the required array - remove fields that are optional or have defaults
-  if (jsonSchema.required && Array.isArray(jsonSchema.required)) {
-    const shape = schema.shape;
-    jsonSchema.required = jsonSchema.required.filter((fieldName: string) => {
-      const field = shape[fieldName];
-      // Remove from required if field is optional or has a default
-      return !field.isOptional() && field._def.defaultValue === undefined;
-    });
-    
-    // If no truly required fields, remove the required array entirely
-    if (jsonSchema.required.length === 0) {
-      delete jsonSchema.required;
-    }
-  }
-  
-  return jsonSchema;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+interface RateLimitState {
+  limit?: number;
+  remaining: number;
+  resetAt: number; // Unix timestamp in ms
 }
 
-// =============================================================================
-// MCP TOOL IMPLEMENTATIONS
-// =============================================================================
+// Last rate-limit headers Petfinder sent for each client ID
+const rateLimits = new Map<string, RateLimitState>();
 
-async function searchPets(input: any) {
-  // Apply defaults before validation
-  const inputWithDefaults = {
-    status: 'adoptable',
-    sort: 'recent',
-    page: 1,
-    limit: 20,
-    ...input // User input overrides defaults
-  };
-  
-  const validatedInput = animalSearchSchema.parse(inputWithDefaults);
-  const result = await searchAnimals(validatedInput) as any;
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `Found ${result.animals?.length || 0} pets matching your search criteria.`,
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
-  };
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: a random delay up to the exponential cap spreads out retries
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(UPSTREAM_RETRY_MAX_MS, UPSTREAM_RETRY_BASE_MS * 2 ** attempt);
 }
 
-async function getPet(input: z.infer<typeof animalGetSchema>) {
-  const result = await getAnimal(input);
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `Pet details for ID ${input.id}:`,
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
-  };
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
 }
 
-async function searchOrgs(input: any) {
-  // Apply defaults before validation
-  const inputWithDefaults = {
-    page: 1,
-    limit: 20,
-    ...input // User input overrides defaults
-  };
-  
-  const validatedInput = organizationSearchSchema.parse(inputWithDefaults);
-  const result = await searchOrganizations(validatedInput) as any;
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `Found ${result.organizations?.length || 0} organizations matching your search criteria.`,
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
-  };
+function recordRateLimit(clientId: string, headers: Headers) {
+  const remaining = headers.get('x-ratelimit-remaining');
+  if (remaining === null) {
+    return;
+  }
+
+  // Reset may be epoch seconds or seconds from now
+  const reset = Number(headers.get('x-ratelimit-reset') ?? 0);
+  const resetAt = reset > 1_000_000_000 ? reset * 1000 : Date.now() + reset * 1000;
+  const limit = headers.get('x-ratelimit-limit');
+
+  rateLimits.set(clientId, {
+    limit: limit === null ? undefined : Number(limit),
+    remaining: Number(remaining),
+    resetAt,
+  });
 }
 
-async function getOrg(input: z.infer<typeof organizationGetSchema>) {
-  const result = await getOrganization(input);
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `Organization details for ID ${input.id}:`,
-      },
+/**
+ * Holds a request back when the client is about to exhaust its quota. Short
+ * waits are absorbed here; if the window resets too far out the request fails
+ * fast with a local 429 instead of spending the last of the quota.
+ */
+async function throttleForRateLimit(clientId: string) {
+  const state = rateLimits.get(clientId);
+  if (!state || state.remaining > RATE_LIMIT_RESERVE) {
+    return;
+  }
+
+  const waitMs = state.resetAt - Date.now();
+  if (waitMs <= 0) {
+    rateLimits.delete(clientId);
+    return;
+  }
+
+  if (waitMs > UPSTREAM_RETRY_MAX_MS) {
+    throw new PetfinderAPIError(
+      429,
+      'Too Many Requests',
       {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
+        detail: `Petfinder rate limit nearly exhausted; resets in ${Math.ceil(waitMs / 1000)}s`,
+        scope: 'upstream',
+        retry_after: Math.ceil(waitMs / 1000),
       },
-    ],
-  };
+      `Petfinder rate limit nearly exhausted for client ${clientId}`
+    );
+  }
+
+  log.warn('Throttling client near its Petfinder rate limit', { client_id: clientId, wait_ms: waitMs, remaining: state.remaining });
+  await sleep(waitMs);
 }
 
-async function listAnimalTypes() {
-  const result = await getAnimalTypes();
-  return {
-    content: [
-      {
-        type: 'text',
-        text: 'Available animal types:',
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
-  };
+/**
+ * fetch with a per-attempt timeout that retries network errors, timeouts,
+ * 429s and 5xx responses. Retry-After is honored when it fits the retry
+ * budget. Returns the last response, which may still be an error response;
+ * its body is already buffered, since the timeout has to cover reading it.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  clientId: string
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await throttleForRateLimit(clientId);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+    let response: Response;
+
+    try {
+      const streamed = await fetch(url, { ...init, signal: controller.signal });
+      // A server that sends headers and then stalls would otherwise hang the
+      // caller's response.json() with no deadline
+      const body = await streamed.arrayBuffer();
+      response = new Response(body.byteLength > 0 ? body : null, {
+        status: streamed.status,
+        statusText: streamed.statusText,
+        headers: streamed.headers,
+      });
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      if (attempt >= UPSTREAM_MAX_RETRIES) {
+        if (timedOut) {
+          throw new PetfinderAPIError(
+            504,
+            'Gateway Timeout',
+            { detail: `No response from Petfinder within ${UPSTREAM_TIMEOUT_MS}ms` },
+            `Petfinder request timed out after ${UPSTREAM_TIMEOUT_MS}ms`
+          );
+        }
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt);
+      log.warn(`${timedOut ? 'Timeout' : 'Network error'} calling Petfinder, retrying`, {
+        attempt: attempt + 1,
+        max_retries: UPSTREAM_MAX_RETRIES,
+        delay_ms: Math.round(delay),
+      });
+      await sleep(delay);
+      continue;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    recordRateLimit(clientId, response.headers);
+    recordUpstreamStatus(response.status);
+    metrics.upstreamResponses.inc({ status: String(response.status) });
+    log.debug('Petfinder response', { path: new URL(url).pathname, status: response.status, attempt });
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= UPSTREAM_MAX_RETRIES) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfter !== undefined && retryAfter > UPSTREAM_RETRY_MAX_MS) {
+      // Waiting that long would stall the tool call - surface the error instead
+      return response;
+    }
+
+    const delay = retryAfter ?? backoffDelay(attempt);
+    log.warn('Petfinder returned a retryable status, retrying', {
+      status: response.status,
+      attempt: attempt + 1,
+      max_retries: UPSTREAM_MAX_RETRIES,
+      delay_ms: Math.round(delay),
+    });
+    await sleep(delay);
+  }
+}
+
+// =============================================================================
+// INBOUND RATE LIMITING - Token buckets and daily quotas for callers
+// =============================================================================
+
+/**
+ * Classic token bucket: `capacity` requests may burst, then tokens refill
+ * evenly over `windowMs`. A capacity of 0 turns the limiter off.
+ */
+class TokenBucketLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(readonly capacity: number, readonly windowMs: number = 60_000) {}
+
+  // Takes a token for `key`; returns 0 when allowed, otherwise ms until one frees up
+  take(key: string): number {
+    if (this.capacity <= 0) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const refillPerMs = this.capacity / this.windowMs;
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.prune(now, refillPerMs);
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs);
+  }
+
+  // Full buckets carry no state worth keeping, so idle callers don't pile up
+  private prune(now: number, refillPerMs: number) {
+    if (this.buckets.size < 10_000) {
+      return;
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Tool calls per client ID per UTC day; 0 means unlimited
+class DailyQuota {
+  private usage = new Map<string, { day: string; count: number }>();
+
+  constructor(readonly limit: number) {}
+
+  // Counts one call for `key`; returns 0 when allowed, otherwise ms until the quota resets
+  take(key: string): number {
+    if (this.limit <= 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const day = now.toISOString().slice(0, 10);
+    const entry = this.usage.get(key);
+    if (!entry || entry.day !== day) {
+      this.usage.set(key, { day, count: 1 });
+      return 0;
+    }
+    if (entry.count < this.limit) {
+      entry.count++;
+      return 0;
+    }
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+  }
+}
+
+export interface InboundRateLimits {
+  perClient: number; // Tool calls per minute per client ID
+  perIP: number; // MCP requests per minute per source IP
+  perTool: number; // Calls per minute per client ID and tool
+  dailyQuota: number; // Tool calls per client ID per UTC day
 }
 
-async function getAnimalTypeDetails(input: z.infer<typeof animalTypeSchema>) {
-  const result = await getAnimalType(input);
+let inboundLimiters = createInboundLimiters({
+  perClient: INBOUND_RATE_LIMIT_PER_CLIENT,
+  perIP: INBOUND_RATE_LIMIT_PER_IP,
+  perTool: INBOUND_RATE_LIMIT_PER_TOOL,
+  dailyQuota: INBOUND_DAILY_QUOTA,
+});
+
+function createInboundLimiters(limits: InboundRateLimits) {
   return {
-    content: [
-      {
-        type: 'text',
-        text: `Animal type details for ${input.type}:`,
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
+    limits,
+    client: new TokenBucketLimiter(limits.perClient),
+    ip: new TokenBucketLimiter(limits.perIP),
+    tool: new TokenBucketLimiter(limits.perTool),
+    daily: new DailyQuota(limits.dailyQuota),
   };
 }
 
-async function listAnimalBreeds(input: z.infer<typeof animalBreedsSchema>) {
-  const result = await getAnimalBreeds(input);
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `Available breeds for ${input.type}:`,
-      },
-      {
-        type: 'text',
-        text: JSON.stringify(result, null, 2),
+// Buckets start over with the new limits
+export function setInboundRateLimits(limits: Partial<InboundRateLimits>) {
+  inboundLimiters = createInboundLimiters({ ...inboundLimiters.limits, ...limits });
+}
+
+function inboundRateLimitError(scope: string, waitMs: number, detail: string): PetfinderAPIError {
+  const retryAfter = Math.ceil(waitMs / 1000);
+  metrics.rateLimited.inc({ scope });
+  log.warn('Inbound rate limit exceeded', { scope, retry_after: retryAfter });
+  return new PetfinderAPIError(
+    429,
+    'Too Many Requests',
+    { detail, scope, retry_after: retryAfter },
+    `${detail}; retry in ${retryAfter}s`
+  );
+}
+
+/**
+ * Charges one call that may reach Petfinder (a tool, resource read or prompt,
+ * named by `tool`) against the per-tool and per-client buckets and the daily
+ * quota, returning the first limit that is exceeded.
+ */
+function checkCallLimits(clientId: string, tool: string): PetfinderAPIError | undefined {
+  const toolWait = inboundLimiters.tool.take(`${clientId}\u0000${tool}`);
+  if (toolWait > 0) {
+    return inboundRateLimitError('tool', toolWait, `Too many ${tool} calls for this client`);
+  }
+
+  const clientWait = inboundLimiters.client.take(clientId);
+  if (clientWait > 0) {
+    return inboundRateLimitError('client', clientWait, 'Too many tool calls for this client');
+  }
+
+  const quotaWait = inboundLimiters.daily.take(clientId);
+  if (quotaWait > 0) {
+    return inboundRateLimitError('daily_quota', quotaWait, 'Daily tool call quota exhausted for this client');
+  }
+  return undefined;
+}
+
+function checkIPLimit(ip: string): PetfinderAPIError | undefined {
+  const wait = inboundLimiters.ip.take(ip);
+  return wait > 0 ? inboundRateLimitError('ip', wait, 'Too many requests from this address') : undefined;
+}
+
+// =============================================================================
+// OAUTH TOKEN MANAGEMENT - Petfinder Client Credentials Flow
+// =============================================================================
+
+interface TokenCache {
+  client_id: string; // For logging only - entries are keyed by a credential hash
+  access_token: string;
+  expires_at: number; // Unix timestamp
+}
+
+// Per-credential token cache - supports multiple clients with different credentials.
+// Keyed by a hash of client ID plus secret, so a wrong secret for a known client
+// ID can never pick up the token obtained with the right one.
+const tokenCache = new Map<string, TokenCache>();
+
+// Token requests currently in flight, shared by every caller with the same credentials
+const inFlightTokenRequests = new Map<string, Promise<string>>();
+
+function tokenCacheKey(clientId: string, clientSecret: string): string {
+  return createHash('sha256').update(`${clientId}\0${clientSecret}`).digest('hex');
+}
+
+// Persistence backend for tokenCache - the in-memory map stays authoritative
+interface TokenStore {
+  load(): Promise<Record<string, TokenCache>>;
+  save(tokens: Record<string, TokenCache>): Promise<void>;
+}
+
+// AES-256-GCM encrypted JSON file; the key is derived from TOKEN_STORE_KEY
+export class EncryptedFileTokenStore implements TokenStore {
+  private key: Buffer;
+
+  constructor(private path: string, secret: string) {
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  async load() {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+
+    const { iv, tag, data } = JSON.parse(await readFile(this.path, 'utf8'));
+    const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  }
+
+  async save(tokens: Record<string, TokenCache>) {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+    const payload = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    // Write-then-rename so a crash mid-save never leaves a truncated file
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(payload), { mode: 0o600 });
+    await rename(tmpPath, this.path);
+  }
+}
+
+function createTokenStore(): TokenStore | undefined {
+  if (!TOKEN_STORE_PATH) {
+    return undefined;
+  }
+  if (!TOKEN_STORE_KEY) {
+    log.warn('TOKEN_STORE_PATH is set without TOKEN_STORE_KEY - tokens will not be persisted');
+    return undefined;
+  }
+  log.info('Persisting encrypted tokens', { path: TOKEN_STORE_PATH });
+  return new EncryptedFileTokenStore(TOKEN_STORE_PATH, TOKEN_STORE_KEY);
+}
+
+let tokenStore: TokenStore | undefined = createTokenStore();
+let tokenStoreLoaded: Promise<void> | undefined;
+
+export function setTokenStore(store: TokenStore | undefined) {
+  tokenStore = store;
+  tokenStoreLoaded = undefined;
+}
+
+function loadPersistedTokens(): Promise<void> {
+  tokenStoreLoaded ??= (async () => {
+    if (!tokenStore) {
+      return;
+    }
+    try {
+      const tokens = await tokenStore.load();
+      for (const [key, token] of Object.entries(tokens)) {
+        if (!tokenCache.has(key)) {
+          tokenCache.set(key, token);
+        }
+      }
+      log.info('Loaded persisted tokens', { count: Object.keys(tokens).length });
+    } catch (error) {
+      log.error('Failed to load persisted tokens', { error });
+    }
+  })();
+  return tokenStoreLoaded;
+}
+
+let tokenSaves: Promise<void> = Promise.resolve();
+
+// Saves run one at a time, each writing the cache as it is when its turn comes
+function persistTokens(): Promise<void> {
+  tokenSaves = tokenSaves
+    .then(() => tokenStore?.save(Object.fromEntries(tokenCache)))
+    .catch((error) => log.error('Failed to persist tokens', { error }));
+  return tokenSaves;
+}
+
+function cleanupExpiredTokens() {
+  const now = Math.floor(Date.now() / 1000);
+  let cleanedCount = 0;
+  
+  for (const [key, token] of tokenCache.entries()) {
+    if (token.expires_at <= now) {
+      tokenCache.delete(key);
+      cleanedCount++;
+      log.debug('Cleaned up expired token', { client_id: token.client_id });
+    }
+  }
+  
+  if (cleanedCount > 0) {
+    log.info('Cleaned up expired tokens', { cleaned: cleanedCount, active: tokenCache.size });
+  }
+}
+
+// Drops a token Petfinder has rejected so the next call fetches a new one
+function invalidateAccessToken(clientId: string, clientSecret: string) {
+  tokenCache.delete(tokenCacheKey(clientId, clientSecret));
+}
+
+async function getAccessToken(clientId: string, clientSecret: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  
+  if (!clientId || !clientSecret) {
+    throw new Error('Missing Petfinder credentials. Provide a client ID and client secret.');
+  }
+
+  await loadPersistedTokens();
+  
+  // Clean up expired tokens periodically
+  cleanupExpiredTokens();
+  
+  // Check if we have a valid cached token for these credentials
+  const key = tokenCacheKey(clientId, clientSecret);
+  const cachedToken = tokenCache.get(key);
+  if (cachedToken && cachedToken.expires_at > now + 60) {
+    if (cachedToken.expires_at <= now + TOKEN_REFRESH_MARGIN_SECONDS) {
+      log.info('Token expires soon, refreshing in the background', { client_id: clientId });
+      requestAccessToken(clientId, clientSecret, key).catch((error) =>
+        log.error('Background token refresh failed', { client_id: clientId, error })
+      );
+    }
+    log.debug('Using cached token', { client_id: clientId });
+    return cachedToken.access_token;
+  }
+
+  return requestAccessToken(clientId, clientSecret, key);
+}
+
+// Concurrent callers with the same credentials share a single token request
+function requestAccessToken(clientId: string, clientSecret: string, key: string): Promise<string> {
+  const inFlight = inFlightTokenRequests.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const request = fetchAccessToken(clientId, clientSecret, key).finally(() =>
+    inFlightTokenRequests.delete(key)
+  );
+  inFlightTokenRequests.set(key, request);
+  return request;
+}
+
+async function fetchAccessToken(clientId: string, clientSecret: string, key: string): Promise<string> {
+  log.info('Requesting new Petfinder access token', { client_id: clientId });
+  
+  // Client credentials grants have no side effects, so retrying is safe
+  const response = await fetchWithRetry(
+    `${petfinderBase}/oauth2/token`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
       },
-    ],
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+      }).toString(),
+    },
+    clientId
+  );
+
+  if (!response.ok) {
+    metrics.tokenRefreshes.inc({ outcome: 'failure' });
+    const errorText = await response.text();
+    throw new PetfinderAPIError(
+      response.status,
+      response.statusText,
+      errorText,
+      `OAuth token request failed (${response.status}): ${errorText}`
+    );
+  }
+  metrics.tokenRefreshes.inc({ outcome: 'success' });
+
+  const tokenData = await response.json() as {
+    token_type: string;
+    expires_in: number;
+    access_token: string;
+  };
+
+  // Cache the token for these specific credentials
+  const newToken: TokenCache = {
+    client_id: clientId,
+    access_token: tokenData.access_token,
+    expires_at: Math.floor(Date.now() / 1000) + tokenData.expires_in,
   };
+  
+  tokenCache.set(key, newToken);
+  persistTokens();
+
+  log.info('New access token obtained', {
+    client_id: clientId,
+    expires_in: tokenData.expires_in,
+    cached_tokens: tokenCache.size,
+  });
+  
+  return newToken.access_token;
+}
+
+// =============================================================================
+// INPUT VALIDATION SCHEMAS
+// =============================================================================
+
+const animalTypeEnum = z.enum(['dog', 'cat', 'small-furry', 'bird', 'scales-fins-other', 'barnyard', 'rabbit', 'horse']);
+
+// Validated and normalized by normalizeLocation before any upstream call
+const locationSchema = z
+  .string()
+  .describe('US ZIP code, Canadian postal code, "City, ST" or "latitude,longitude"');
+
+const animalSearchSchema = z.object({
+  type: animalTypeEnum.optional(),
+  breed: z.array(z.string()).optional(),
+  size: z.array(z.enum(['small', 'medium', 'large', 'extra-large'])).optional(),
+  gender: z.array(z.enum(['male', 'female', 'unknown'])).optional(),
+  age: z.array(z.enum(['baby', 'young', 'adult', 'senior'])).optional(),
+  color: z.array(z.string()).optional(),
+  coat: z.array(z.enum(['short', 'medium', 'long', 'wire', 'hairless', 'curly'])).optional(),
+  status: z.enum(['adoptable', 'adopted', 'found']).optional().default('adoptable'),
+  name: z.string().optional(),
+  organization: z.array(z.string()).optional(),
+  location: locationSchema.optional(),
+  distance: z.number().int().positive().optional(),
+  good_with_children: z.boolean().optional(),
+  good_with_dogs: z.boolean().optional(),
+  good_with_cats: z.boolean().optional(),
+  house_trained: z.boolean().optional(),
+  declawed: z.boolean().optional(),
+  special_needs: z.boolean().optional(),
+  sort: z.enum(['recent', '-recent', 'distance', '-distance', 'random']).optional().default('recent'),
+  page: z.number().int().min(1).optional().default(1),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+});
+
+const animalGetSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+const organizationSearchSchema = z.object({
+  name: z.string().optional(),
+  location: locationSchema.optional(),
+  distance: z.number().int().positive().optional(),
+  country: z.string().optional(),
+  state: z.string().optional(),
+  query: z.string().optional(),
+  sort: z.enum(['distance', '-distance', 'name', '-name', 'country', '-country', 'state', '-state']).optional(),
+  page: z.number().int().min(1).optional().default(1),
+  limit: z.number().int().min(1).max(100).optional().default(20),
+});
+
+const organizationGetSchema = z.object({
+  id: z.string(),
+});
+
+const organizationProfileSchema = organizationGetSchema.extend({
+  animal_limit: z.number().int().min(0).max(100).optional().default(20),
+});
+
+// How search tools render results: the raw Petfinder records, a trimmed
+// record per result, or a trimmed record plus a markdown table
+const resultFormatSchema = z.enum(['full', 'compact', 'markdown']).optional().default('full');
+
+// Filters Petfinder can't query, applied to each fetched page instead
+const animalClientFilterSchema = z.object({
+  has_photos: z.boolean().optional(),
+  description_contains: z.string().min(1).optional(),
+});
+
+// Tool inputs add presentation options on top of the Petfinder query params
+const animalSearchToolSchema = animalSearchSchema.extend({
+  ...animalClientFilterSchema.shape,
+  // Animals to skip at the start of page; only used with client-side filters
+  page_offset: z.number().int().min(0).optional(),
+  format: resultFormatSchema,
+});
+
+const organizationSearchToolSchema = organizationSearchSchema.extend({
+  format: resultFormatSchema,
+});
+
+// Paging is handled by the tool, so page/limit are replaced by result budgets
+const animalSearchAllToolSchema = animalSearchSchema.omit({ page: true, limit: true }).extend({
+  max_results: z.number().int().min(1).max(1000).optional().default(200),
+  max_pages: z.number().int().min(1).optional(),
+  format: resultFormatSchema,
+});
+
+// One distance-sorted search per location replaces location, sort and page;
+// limit applies to each location
+const animalSearchNearToolSchema = animalSearchSchema.omit({ location: true, sort: true, page: true }).extend({
+  locations: z.array(locationSchema).min(1).max(5),
+  format: resultFormatSchema,
+});
+
+// Saved searches keep the Petfinder filters only - checks always walk the
+// newest listings first, so sort and paging are not part of the query
+const savedSearchQuerySchema = animalSearchSchema.omit({ sort: true, page: true, limit: true });
+
+const searchSaveSchema = z.object({
+  name: z.string().min(1),
+  query: savedSearchQuerySchema,
+});
+
+const searchListSchema = z.object({});
+
+const searchDeleteSchema = z.object({
+  id: z.string(),
+});
+
+const searchCheckNewSchema = z.object({
+  id: z.string(),
+  format: resultFormatSchema,
+});
+
+const favoriteAddSchema = z.object({
+  id: z.number().int().positive(),
+  note: z.string().optional(),
+});
+
+const favoriteRemoveSchema = z.object({
+  id: z.number().int().positive(),
+});
+
+const favoriteListSchema = z.object({});
+
+// Compares the whole shortlist unless specific pets are named
+const favoriteCompareSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(20).optional(),
+});
+
+const animalTypesSchema = z.object({});
+
+const animalTypeSchema = z.object({
+  type: z.string(),
+});
+
+const animalBreedsSchema = z.object({
+  type: z.string(),
+});
+
+// =============================================================================
+// OUTPUT SCHEMAS - Shapes of the Petfinder payloads returned as structuredContent
+// =============================================================================
+
+// Petfinder adds fields over time, so objects are loose and most values nullable
+
+const photoSchema = z.looseObject({
+  small: z.string().optional(),
+  medium: z.string().optional(),
+  large: z.string().optional(),
+  full: z.string().optional(),
+});
+
+const addressSchema = z.looseObject({
+  address1: z.string().nullish(),
+  address2: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  postcode: z.string().nullish(),
+  country: z.string().nullish(),
+});
+
+const animalSchema = z.looseObject({
+  id: z.number(),
+  organization_id: z.string().nullish(),
+  url: z.string().nullish(),
+  type: z.string().nullish(),
+  species: z.string().nullish(),
+  breeds: z
+    .looseObject({
+      primary: z.string().nullish(),
+      secondary: z.string().nullish(),
+      mixed: z.boolean().nullish(),
+      unknown: z.boolean().nullish(),
+    })
+    .optional(),
+  colors: z
+    .looseObject({
+      primary: z.string().nullish(),
+      secondary: z.string().nullish(),
+      tertiary: z.string().nullish(),
+    })
+    .optional(),
+  age: z.string().nullish(),
+  gender: z.string().nullish(),
+  size: z.string().nullish(),
+  coat: z.string().nullish(),
+  attributes: z
+    .looseObject({
+      spayed_neutered: z.boolean().nullish(),
+      house_trained: z.boolean().nullish(),
+      declawed: z.boolean().nullish(),
+      special_needs: z.boolean().nullish(),
+      shots_current: z.boolean().nullish(),
+    })
+    .optional(),
+  environment: z
+    .looseObject({
+      children: z.boolean().nullish(),
+      dogs: z.boolean().nullish(),
+      cats: z.boolean().nullish(),
+    })
+    .optional(),
+  tags: z.array(z.string()).optional(),
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  photos: z.array(photoSchema).optional(),
+  status: z.string().nullish(),
+  published_at: z.string().nullish(),
+  distance: z.number().nullish(),
+  contact: z
+    .looseObject({
+      email: z.string().nullish(),
+      phone: z.string().nullish(),
+      address: addressSchema.optional(),
+    })
+    .optional(),
+});
+
+const organizationSchema = z.looseObject({
+  id: z.string(),
+  name: z.string().nullish(),
+  email: z.string().nullish(),
+  phone: z.string().nullish(),
+  address: addressSchema.optional(),
+  hours: z.record(z.string(), z.string().nullable()).optional(),
+  url: z.string().nullish(),
+  website: z.string().nullish(),
+  mission_statement: z.string().nullish(),
+  adoption: z
+    .looseObject({
+      policy: z.string().nullish(),
+      url: z.string().nullish(),
+    })
+    .optional(),
+  social_media: z.record(z.string(), z.string().nullable()).optional(),
+  photos: z.array(photoSchema).optional(),
+  distance: z.number().nullish(),
+});
+
+const paginationSchema = z.looseObject({
+  count_per_page: z.number(),
+  total_count: z.number(),
+  current_page: z.number(),
+  total_pages: z.number(),
+});
+
+const animalTypeInfoSchema = z.looseObject({
+  name: z.string(),
+  coats: z.array(z.string()).optional(),
+  colors: z.array(z.string()).optional(),
+  genders: z.array(z.string()).optional(),
+});
+
+const breedSchema = z.looseObject({
+  name: z.string(),
+});
+
+// Compact records keep just enough to pick a result and follow its link
+const compactAnimalSchema = z.object({
+  id: z.number(),
+  name: z.string().nullish(),
+  breed: z.string().nullish(),
+  age: z.string().nullish(),
+  size: z.string().nullish(),
+  gender: z.string().nullish(),
+  distance: z.number().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  photo: z.string().nullish(),
+  url: z.string().nullish(),
+});
+
+const compactOrganizationSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  email: z.string().nullish(),
+  phone: z.string().nullish(),
+  website: z.string().nullish(),
+  distance: z.number().nullish(),
+  url: z.string().nullish(),
+});
+
+const animalSearchOutputSchema = z.object({
+  animals: z.array(animalSchema),
+  pagination: paginationSchema,
+});
+
+// Which of the requested filters Petfinder applied and which the server did
+const appliedFiltersSchema = z.object({
+  server_side: z.array(z.string()),
+  client_side: z.array(z.string()),
+});
+
+const animalSearchToolOutputSchema = z.object({
+  animals: z.array(z.union([animalSchema, compactAnimalSchema])),
+  pagination: paginationSchema, // The last Petfinder page fetched
+  filters: appliedFiltersSchema,
+  // Present when client-side filters were applied
+  client_filtering: z
+    .object({
+      pages_scanned: z.number(),
+      animals_scanned: z.number(),
+      budget_exhausted: z.boolean(), // Stopped at the page budget before reaching limit
+      next_page: z.number().nullable(), // Pass as page to keep scanning
+      next_offset: z.number(), // Pass as page_offset alongside next_page
+    })
+    .optional(),
+});
+
+const animalGetOutputSchema = z.object({
+  animal: animalSchema,
+});
+
+const animalSearchAllOutputSchema = z.object({
+  animals: z.array(z.union([animalSchema, compactAnimalSchema])),
+  total_count: z.number(),
+  pages_fetched: z.number(),
+  truncated: z.boolean(),
+  truncated_reason: z.enum(['max_results', 'max_pages']).optional(),
+});
+
+const animalSearchNearOutputSchema = z.object({
+  matches: z.array(
+    z.object({
+      animal: z.union([animalSchema, compactAnimalSchema]), // distance is the smallest one
+      distance: z.number().nullable(),
+      nearest_location: z.string(),
+      distances: z.record(z.string(), z.number().nullable()), // Per location that returned the animal
+    })
+  ),
+  locations: z.array(
+    z.object({
+      location: z.string(), // Normalized form sent to Petfinder
+      total_count: z.number(),
+      returned: z.number(),
+    })
+  ),
+});
+
+const organizationSearchOutputSchema = z.object({
+  organizations: z.array(organizationSchema),
+  pagination: paginationSchema,
+});
+
+const organizationSearchToolOutputSchema = z.object({
+  organizations: z.array(z.union([organizationSchema, compactOrganizationSchema])),
+  pagination: paginationSchema,
+});
+
+const organizationGetOutputSchema = z.object({
+  organization: organizationSchema,
+});
+
+const organizationProfileOutputSchema = z.object({
+  organization: z.object({
+    id: z.string(),
+    name: z.string().nullish(),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    website: z.string().nullish(),
+    url: z.string().nullish(),
+    mission_statement: z.string().nullish(),
+    address: addressSchema.optional(),
+    hours: z.record(z.string(), z.string().nullable()).optional(),
+    adoption: organizationSchema.shape.adoption,
+    social_media: z.record(z.string(), z.string()), // Only the networks the organization uses
+  }),
+  inventory: z.object({
+    total_count: z.number(), // Adoptable animals Petfinder lists for the organization
+    counted: z.number(), // Animals the breakdowns below were computed from
+    truncated: z.boolean(), // More animals than the page budget could count
+    by_type: z.record(z.string(), z.number()),
+    by_age: z.record(z.string(), z.number()),
+    by_size: z.record(z.string(), z.number()),
+  }),
+  animals: z.array(compactAnimalSchema), // Most recently listed first, up to animal_limit
+});
+
+const animalTypesOutputSchema = z.object({
+  types: z.array(animalTypeInfoSchema),
+});
+
+const animalTypeOutputSchema = z.object({
+  type: animalTypeInfoSchema,
+});
+
+const animalBreedsOutputSchema = z.object({
+  breeds: z.array(breedSchema),
+});
+
+const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: savedSearchQuerySchema,
+  created_at: z.string(),
+  last_checked_at: z.string().nullable(),
+  watching: z.boolean(), // Background checks are pushing notifications
+});
+
+const searchSaveOutputSchema = z.object({
+  search: savedSearchSchema,
+  current_matches: z.number(),
+});
+
+const searchListOutputSchema = z.object({
+  searches: z.array(savedSearchSchema),
+});
+
+const searchDeleteOutputSchema = z.object({
+  id: z.string(),
+  deleted: z.boolean(),
+});
+
+const searchCheckNewOutputSchema = z.object({
+  search: savedSearchSchema,
+  new_animals: z.array(z.union([animalSchema, compactAnimalSchema])),
+  new_count: z.number(),
+});
+
+const favoriteSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  note: z.string().nullable(),
+  status: z.string().nullable(), // Status when the pet was added
+  added_at: z.string(),
+});
+
+const favoriteAddOutputSchema = z.object({
+  favorite: favoriteSchema,
+  added: z.boolean(), // false when the pet was already a favorite
+});
+
+const favoriteRemoveOutputSchema = z.object({
+  id: z.number(),
+  removed: z.boolean(),
+});
+
+const favoriteListOutputSchema = z.object({
+  favorites: z.array(favoriteSchema),
+});
+
+const petComparisonSchema = z.object({
+  id: z.number(),
+  name: z.string().nullish(),
+  url: z.string().nullish(),
+  listed: z.boolean(), // false once Petfinder no longer returns the pet
+  status: z.string().nullish(),
+  status_changed: z.boolean(), // No longer adoptable
+  age: z.string().nullish(),
+  size: z.string().nullish(),
+  gender: z.string().nullish(),
+  breed: z.string().nullish(),
+  house_trained: z.boolean().nullish(),
+  spayed_neutered: z.boolean().nullish(),
+  special_needs: z.boolean().nullish(),
+  good_with_children: z.boolean().nullish(),
+  good_with_dogs: z.boolean().nullish(),
+  good_with_cats: z.boolean().nullish(),
+  organization: z.object({
+    id: z.string().nullish(),
+    name: z.string().nullish(),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    city: z.string().nullish(),
+    state: z.string().nullish(),
+  }),
+});
+
+const favoriteCompareOutputSchema = z.object({
+  pets: z.array(petComparisonSchema),
+  status_changed: z.array(z.number()), // IDs of pets that are no longer adoptable
+});
+
+// =============================================================================
+// RESPONSE CACHE - Per-endpoint TTLs, LRU cap, stale-while-revalidate
+// =============================================================================
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // Unix timestamp in ms - fresh until then
+  staleUntil: number; // Unix timestamp in ms - may be served while revalidating
+}
+
+// Stores are async so an out-of-process backend can replace the in-memory map
+interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const cacheStats = {
+  hits: 0,
+  misses: 0,
+  staleHits: 0,
+  evictions: 0,
+};
+
+// A snapshot of the hit/miss/stale/eviction counters since startup
+export function getCacheStats() {
+  return { ...cacheStats };
+}
+
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration order is insertion order, so the first key is least recent
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+      cacheStats.evictions++;
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+class SQLiteCacheStore implements CacheStore {
+  private db: Database;
+
+  constructor(path: string, private maxEntries: number) {
+    this.db = new Database(path, { create: true });
+    this.db.run(
+      'CREATE TABLE IF NOT EXISTS response_cache (key TEXT PRIMARY KEY, entry TEXT NOT NULL, last_access INTEGER NOT NULL)'
+    );
+  }
+
+  async get(key: string) {
+    const row = this.db
+      .query<{ entry: string }, [string]>('SELECT entry FROM response_cache WHERE key = ?')
+      .get(key);
+    if (!row) {
+      return undefined;
+    }
+    this.db.run('UPDATE response_cache SET last_access = ? WHERE key = ?', [Date.now(), key]);
+    return JSON.parse(row.entry) as CacheEntry;
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.db.run(
+      'INSERT OR REPLACE INTO response_cache (key, entry, last_access) VALUES (?, ?, ?)',
+      [key, JSON.stringify(entry), Date.now()]
+    );
+
+    const { count } = this.db
+      .query<{ count: number }, []>('SELECT COUNT(*) AS count FROM response_cache')
+      .get()!;
+    if (count > this.maxEntries) {
+      this.db.run(
+        'DELETE FROM response_cache WHERE key IN (SELECT key FROM response_cache ORDER BY last_access ASC LIMIT ?)',
+        [count - this.maxEntries]
+      );
+      cacheStats.evictions += count - this.maxEntries;
+    }
+  }
+
+  async delete(key: string) {
+    this.db.run('DELETE FROM response_cache WHERE key = ?', [key]);
+  }
+}
+
+// Works with Redis or any Redis-compatible server; eviction is left to the
+// server's maxmemory policy and entries expire once they are no longer servable
+class RedisCacheStore implements CacheStore {
+  private client: RedisClient;
+
+  constructor(url?: string) {
+    this.client = new RedisClient(url);
+  }
+
+  async get(key: string) {
+    const raw = await this.client.get(`petfinder:cache:${key}`);
+    return raw ? (JSON.parse(raw) as CacheEntry) : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    const ttlMs = Math.max(entry.staleUntil - Date.now(), 1);
+    await this.client.set(`petfinder:cache:${key}`, JSON.stringify(entry), 'PX', ttlMs);
+  }
+
+  async delete(key: string) {
+    await this.client.del(`petfinder:cache:${key}`);
+  }
+}
+
+function createCacheStore(): CacheStore {
+  switch (CACHE_STORE) {
+    case 'sqlite':
+      log.info('Response cache: SQLite');
+      return new SQLiteCacheStore(process.env.CACHE_SQLITE_PATH ?? 'petfinder-cache.sqlite', CACHE_MAX_ENTRIES);
+    case 'redis':
+      log.info('Response cache: Redis');
+      return new RedisCacheStore(process.env.REDIS_URL);
+    default:
+      log.info('Response cache: in-memory', { max_entries: CACHE_MAX_ENTRIES });
+      return new MemoryCacheStore(CACHE_MAX_ENTRIES);
+  }
+}
+
+let cacheStore: CacheStore = createCacheStore();
+
+export function setCacheStore(store: CacheStore) {
+  cacheStore = store;
+}
+
+interface CachePolicy {
+  family: string;
+  ttlSeconds: number;
+  shared: boolean; // Same data for every client, so one entry serves all tenants
+}
+
+function cacheTTL(envName: string, defaultSeconds: number): number {
+  return parseInt(process.env[envName] ?? String(defaultSeconds), 10);
+}
+
+// Types and breeds almost never change; search results change the fastest
+const cachePolicies: Array<{ pattern: RegExp; policy: CachePolicy }> = [
+  { pattern: /^\/types(\/|$)/, policy: { family: 'types', ttlSeconds: cacheTTL('CACHE_TTL_TYPES_SECONDS', 86400), shared: true } },
+  { pattern: /^\/animals\/[^/]+$/, policy: { family: 'animal', ttlSeconds: cacheTTL('CACHE_TTL_ANIMAL_SECONDS', 300), shared: false } },
+  { pattern: /^\/animals$/, policy: { family: 'animal_search', ttlSeconds: cacheTTL('CACHE_TTL_ANIMAL_SEARCH_SECONDS', 60), shared: false } },
+  { pattern: /^\/organizations\/[^/]+$/, policy: { family: 'organization', ttlSeconds: cacheTTL('CACHE_TTL_ORGANIZATION_SECONDS', 3600), shared: false } },
+  { pattern: /^\/organizations$/, policy: { family: 'organization_search', ttlSeconds: cacheTTL('CACHE_TTL_ORGANIZATION_SEARCH_SECONDS', 300), shared: false } },
+];
+
+function getCachePolicy(endpoint: string): CachePolicy | undefined {
+  const policy = cachePolicies.find(({ pattern }) => pattern.test(endpoint))?.policy;
+  return policy && policy.ttlSeconds > 0 ? policy : undefined;
+}
+
+// Sorted keys and array values, so equivalent queries share one entry
+function normalizeParams(params?: Record<string, any>): string {
+  if (!params) {
+    return '';
+  }
+  return Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map((key) => {
+      const value = params[key];
+      const normalized = Array.isArray(value) ? value.map(String).sort().join(',') : String(value);
+      return `${key}=${normalized}`;
+    })
+    .join('&');
+}
+
+const revalidating = new Set<string>();
+
+// Every wrapper goes through here; uncached endpoints fall straight through
+async function petfinderRequest(
+  context: RequestContext,
+  endpoint: string,
+  params?: Record<string, any>
+) {
+  const policy = getCachePolicy(endpoint);
+  if (!policy) {
+    recordCacheOutcome('uncached');
+    return fetchFromPetfinder(context, endpoint, params);
+  }
+
+  // Cached data is only for callers whose secret checks out - a cached token
+  // makes this free, and a wrong secret fails here instead of reading the cache
+  await getAccessToken(context.clientId, context.clientSecret);
+
+  const scope = policy.shared ? 'shared' : `tenant:${tenantKey(context)}`;
+  const key = `${scope}|${endpoint}?${normalizeParams(params)}`;
+  const now = Date.now();
+
+  let entry: CacheEntry | undefined;
+  try {
+    entry = await cacheStore.get(key);
+  } catch (error) {
+    log.error('Cache read failed, falling back to Petfinder', { error });
+  }
+
+  if (entry && entry.expiresAt > now) {
+    cacheStats.hits++;
+    recordCacheOutcome('hit');
+    log.debug('Cache hit', { family: policy.family, endpoint });
+    return entry.value;
+  }
+
+  if (entry && entry.staleUntil > now) {
+    cacheStats.staleHits++;
+    recordCacheOutcome('stale');
+    log.debug('Cache stale hit, revalidating', { family: policy.family, endpoint });
+    if (!revalidating.has(key)) {
+      revalidating.add(key);
+      fetchAndStore(context, endpoint, params, key, policy)
+        .catch((error) => log.error('Background revalidation failed', { endpoint, error }))
+        .finally(() => revalidating.delete(key));
+    }
+    return entry.value;
+  }
+
+  cacheStats.misses++;
+  recordCacheOutcome('miss');
+  log.debug('Cache miss', { family: policy.family, endpoint });
+  return fetchAndStore(context, endpoint, params, key, policy);
+}
+
+async function fetchAndStore(
+  context: RequestContext,
+  endpoint: string,
+  params: Record<string, any> | undefined,
+  key: string,
+  policy: CachePolicy
+) {
+  const value = await fetchFromPetfinder(context, endpoint, params);
+  const now = Date.now();
+
+  try {
+    await cacheStore.set(key, {
+      value,
+      expiresAt: now + policy.ttlSeconds * 1000,
+      staleUntil: now + (policy.ttlSeconds + CACHE_STALE_SECONDS) * 1000,
+    });
+  } catch (error) {
+    log.error('Cache write failed', { error });
+  }
+
+  return value;
+}
+
+// =============================================================================
+// PETFINDER API FUNCTIONS - Direct API Wrappers
+// =============================================================================
+
+// Credentials for a single tools/call - passed explicitly through the call
+// chain so concurrent requests from different clients never share state
+interface RequestContext {
+  clientId: string;
+  clientSecret: string;
+  notifier?: Notifier;
+}
+
+// Tenant-owned rows (favorites, saved searches) are keyed by the verified
+// credentials rather than the client ID, which any caller can name
+function tenantKey(context: RequestContext): string {
+  return tokenCacheKey(context.clientId, context.clientSecret);
+}
+
+// Pushes server-initiated JSON-RPC notifications back over the transport a
+// request arrived on. Stateless HTTP requests have nowhere to push, so they
+// carry no notifier.
+interface Notifier {
+  notify(method: string, params: unknown): void;
+  isOpen(): boolean;
+  logLevel: MCPLogLevel; // Set by logging/setLevel
+}
+
+// Severities of the MCP logging capability, least to most severe
+const MCP_LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+type MCPLogLevel = (typeof MCP_LOG_LEVELS)[number];
+
+// notifications/message belongs to the logging capability, so it honors the
+// level the client picked with logging/setLevel
+function sendLogNotification(notifier: Notifier, level: MCPLogLevel, logger: string, data: unknown) {
+  if (MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(notifier.logLevel)) {
+    return;
+  }
+  notifier.notify('notifications/message', { level, logger, data });
+}
+
+async function fetchFromPetfinder(
+  context: RequestContext,
+  endpoint: string,
+  params?: Record<string, any>
+) {
+  const { clientId, clientSecret } = context;
+  
+  if (!clientId || !clientSecret) {
+    throw new Error('Request context missing credentials');
+  }
+  
+  let url = `${petfinderBase}${endpoint}`;
+  if (params) {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        if (Array.isArray(value)) {
+          value.forEach(v => searchParams.append(key, v.toString()));
+        } else {
+          searchParams.append(key, value.toString());
+        }
+      }
+    });
+    const queryString = searchParams.toString();
+    if (queryString) {
+      url += `?${queryString}`;
+    }
+  }
+
+  const sendRequest = async () => {
+    const token = await getAccessToken(clientId, clientSecret);
+    return fetchWithRetry(
+      url,
+      {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      },
+      clientId
+    );
+  };
+
+  let response = await sendRequest();
+
+  // The cached token may have been revoked before it expired - refresh once
+  if (response.status === 401) {
+    log.info('Petfinder rejected the cached token, refreshing', { client_id: clientId });
+    await response.body?.cancel();
+    invalidateAccessToken(clientId, clientSecret);
+    response = await sendRequest();
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorBody;
+    try {
+      errorBody = JSON.parse(errorText);
+    } catch {
+      errorBody = errorText;
+    }
+    throw new PetfinderAPIError(
+      response.status,
+      response.statusText,
+      errorBody,
+      `Petfinder API error (${response.status}): ${errorText}`
+    );
+  }
+
+  return response.json();
+}
+
+async function searchAnimals(
+  context: RequestContext,
+  params: z.infer<typeof animalSearchSchema>
+) {
+  return await petfinderRequest(context, '/animals', withNormalizedLocation(params));
+}
+
+async function getAnimal(
+  context: RequestContext,
+  params: z.infer<typeof animalGetSchema>
+) {
+  return await petfinderRequest(context, `/animals/${params.id}`);
+}
+
+async function searchOrganizations(
+  context: RequestContext,
+  params: z.infer<typeof organizationSearchSchema>
+) {
+  return await petfinderRequest(context, '/organizations', withNormalizedLocation(params));
+}
+
+async function getOrganization(
+  context: RequestContext,
+  params: z.infer<typeof organizationGetSchema>
+) {
+  return await petfinderRequest(context, `/organizations/${params.id}`);
+}
+
+async function getAnimalTypes(context: RequestContext) {
+  return await petfinderRequest(context, '/types');
+}
+
+async function getAnimalType(
+  context: RequestContext,
+  params: z.infer<typeof animalTypeSchema>
+) {
+  return await petfinderRequest(context, `/types/${params.type}`);
+}
+
+async function getAnimalBreeds(
+  context: RequestContext,
+  params: z.infer<typeof animalBreedsSchema>
+) {
+  return await petfinderRequest(context, `/types/${params.type}/breeds`);
+}
+
+// =============================================================================
+// NAME RESOLUTION - Map free-form types, breeds, colors and coats to valid values
+// =============================================================================
+
+type AnimalTypeInfo = z.infer<typeof animalTypeInfoSchema>;
+
+// Shorthand adopters (and LLMs) use for common breeds. Only applied when the
+// target exists in the breed list being searched.
+const BREED_ALIASES: Record<string, string> = {
+  lab: 'Labrador Retriever',
+  golden: 'Golden Retriever',
+  gsd: 'German Shepherd Dog',
+  pit: 'Pit Bull Terrier',
+  pitbull: 'Pit Bull Terrier',
+  pittie: 'Pit Bull Terrier',
+  dsh: 'Domestic Short Hair',
+  dmh: 'Domestic Medium Hair',
+  dlh: 'Domestic Long Hair',
+};
+
+// Words that describe a mix rather than a breed ("Golden retriever mix")
+const BREED_QUALIFIERS = new Set(['mix', 'mixed', 'cross', 'x']);
+
+function nameTokens(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function normalizeName(value: string): string {
+  return nameTokens(value).join('');
+}
+
+// "Small & Furry" -> "small-furry", the form Petfinder uses in type URLs
+function typeSlug(name: string): string {
+  return nameTokens(name).join('-');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function nameSimilarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Matches a free-form value against the valid names: exact (ignoring case,
+ * punctuation and a plural "s"), then an alias, then a unique token prefix
+ * ("lab" -> "Labrador Retriever"), then a clearly closest spelling. When no
+ * single name wins, the best candidates come back as suggestions.
+ */
+function matchName(
+  value: string,
+  candidates: string[],
+  aliases: Record<string, string> = {}
+): { match?: string; suggestions: string[] } {
+  const key = normalizeName(value);
+  const byKey = new Map(candidates.map((candidate) => [normalizeName(candidate), candidate]));
+  const exact = byKey.get(key) ?? byKey.get(key.replace(/s$/, '')) ?? byKey.get(key.replace(/es$/, ''));
+  if (exact) {
+    return { match: exact, suggestions: [] };
+  }
+
+  const alias = aliases[key];
+  if (alias && candidates.includes(alias)) {
+    return { match: alias, suggestions: [] };
+  }
+
+  const ranked = candidates
+    .map((name) => ({ name, score: nameSimilarity(key, normalizeName(name)) }))
+    .sort((a, b) => b.score - a.score);
+
+  const tokens = nameTokens(value);
+  const prefixed = ranked.filter(({ name }) =>
+    tokens.every((token) => nameTokens(name).some((candidate) => candidate.startsWith(token)))
+  );
+  if (prefixed.length === 1) {
+    return { match: prefixed[0]!.name, suggestions: [] };
+  }
+  if (prefixed.length > 1) {
+    return { suggestions: prefixed.slice(0, 5).map(({ name }) => name) };
+  }
+
+  const [best, second] = ranked;
+  if (best && best.score >= 0.75 && best.score - (second?.score ?? 0) >= 0.1) {
+    return { match: best.name, suggestions: [] };
+  }
+  return { suggestions: ranked.filter(({ score }) => score >= 0.4).slice(0, 5).map(({ name }) => name) };
+}
+
+function unresolvedParam(path: string, label: string, value: string, suggestions: string[], valid: string[]): InvalidParam {
+  return {
+    in: 'arguments',
+    path,
+    message:
+      suggestions.length > 0
+        ? `"${value}" is not a known ${label} - did you mean ${suggestions.map((name) => `"${name}"`).join(' or ')}?`
+        : `"${value}" is not a known ${label}` + (valid.length <= 12 ? ` - valid values: ${valid.join(', ')}` : ''),
+    suggestions,
+  };
+}
+
+/**
+ * Resolves a type name like "Dogs" or "small & furry" against the cached
+ * /types list. Throws InvalidParamsError with suggestions when it can't.
+ */
+async function resolveAnimalType(
+  context: RequestContext,
+  value: string,
+  path: string = 'type'
+): Promise<AnimalTypeInfo & { slug: string }> {
+  const { types } = animalTypesOutputSchema.parse(await getAnimalTypes(context));
+  const names = types.map((type) => type.name);
+  const { match, suggestions } = matchName(value, names);
+  const type = types.find((candidate) => candidate.name === match);
+  if (!type) {
+    throw new InvalidParamsError([unresolvedParam(path, 'animal type', value, suggestions, names)]);
+  }
+  return { ...type, slug: typeSlug(type.name) };
+}
+
+/**
+ * Normalizes the type, breed, color and coat of a raw pets.search style
+ * input to values Petfinder accepts, using the cached /types and
+ * /types/{type}/breeds data. Without a type, breeds, colors and coats are
+ * matched across every type. All unresolvable values are reported together.
+ */
+async function resolveSearchTerms<T>(context: RequestContext, input: T): Promise<T> {
+  if (typeof input !== 'object' || input === null) {
+    return input;
+  }
+
+  const raw = input as Record<string, unknown>;
+  const stringList = (value: unknown): string[] | undefined =>
+    Array.isArray(value) && value.every((entry) => typeof entry === 'string') ? value : undefined;
+  const breeds = stringList(raw.breed);
+  const colors = stringList(raw.color);
+  const coats = stringList(raw.coat);
+  const typeNeedsResolving = typeof raw.type === 'string' && !animalTypeEnum.safeParse(raw.type).success;
+  const coatsNeedResolving = coats?.some((coat) => !animalSearchSchema.shape.coat.safeParse([coat]).success);
+
+  if (!typeNeedsResolving && !breeds?.length && !colors?.length && !coatsNeedResolving) {
+    return input;
+  }
+
+  const resolved: Record<string, unknown> = { ...raw };
+  const invalidParams: InvalidParam[] = [];
+  const { types } = animalTypesOutputSchema.parse(await getAnimalTypes(context));
+  let searchedTypes = types;
+
+  if (typeof raw.type === 'string') {
+    const { match, suggestions } = matchName(raw.type, types.map((type) => type.name));
+    const type = types.find((candidate) => candidate.name === match);
+    if (type) {
+      resolved.type = typeSlug(type.name);
+      searchedTypes = [type];
+    } else {
+      invalidParams.push(unresolvedParam('type', 'animal type', raw.type, suggestions, types.map((type) => type.name)));
+    }
+  }
+
+  const resolveList = (
+    field: string,
+    label: string,
+    values: string[],
+    candidates: string[],
+    clean: (value: string) => string = (value) => value,
+    aliases?: Record<string, string>
+  ) =>
+    values.map((value, index) => {
+      const { match, suggestions } = matchName(clean(value), candidates, aliases);
+      if (!match) {
+        invalidParams.push(unresolvedParam(`${field}[${index}]`, label, value, suggestions, candidates));
+      }
+      return match ?? value;
+    });
+
+  if (breeds?.length) {
+    const breedLists = await Promise.all(
+      searchedTypes.map(async (type) =>
+        animalBreedsOutputSchema.parse(await getAnimalBreeds(context, { type: typeSlug(type.name) })).breeds
+      )
+    );
+    const breedNames = [...new Set(breedLists.flat().map((breed) => breed.name))];
+    const stripQualifiers = (value: string) =>
+      nameTokens(value).filter((token) => !BREED_QUALIFIERS.has(token)).join(' ') || value;
+    resolved.breed = resolveList('breed', 'breed', breeds, breedNames, stripQualifiers, BREED_ALIASES);
+  }
+
+  if (colors?.length) {
+    const colorNames = [...new Set(searchedTypes.flatMap((type) => type.colors ?? []))];
+    resolved.color = resolveList('color', 'color', colors, colorNames);
+  }
+
+  if (coats?.length) {
+    const coatNames = [...new Set(searchedTypes.flatMap((type) => type.coats ?? []))];
+    resolved.coat = resolveList('coat', 'coat', coats, coatNames).map((coat) => coat.toLowerCase());
+  }
+
+  if (invalidParams.length > 0) {
+    throw new InvalidParamsError(invalidParams);
+  }
+  return resolved as T;
+}
+
+// =============================================================================
+// LOCATION HELPERS - Validate and normalize search locations
+// =============================================================================
+
+const US_STATES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'PR', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+]);
+
+const CA_PROVINCES = new Set(['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT']);
+
+const LOCATION_FORMATS =
+  'a US ZIP code (90210 or 90210-1234), a Canadian postal code (K1A 0B1), "City, ST" with a US state or Canadian province code, or "latitude,longitude"';
+
+/**
+ * Returns the location in the form Petfinder expects, or undefined when it
+ * matches none of the supported formats.
+ */
+function parseLocation(value: string): string | undefined {
+  const location = value.trim().replace(/\s+/g, ' ');
+
+  if (/^\d{5}(-\d{4})?$/.test(location)) {
+    return location;
+  }
+
+  const postal = /^([A-Za-z]\d[A-Za-z]) ?(\d[A-Za-z]\d)$/.exec(location);
+  if (postal) {
+    return `${postal[1]} ${postal[2]}`.toUpperCase();
+  }
+
+  const coordinates = /^(-?\d{1,2}(?:\.\d+)?) ?, ?(-?\d{1,3}(?:\.\d+)?)$/.exec(location);
+  if (coordinates) {
+    const latitude = Number(coordinates[1]);
+    const longitude = Number(coordinates[2]);
+    return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? `${latitude},${longitude}` : undefined;
+  }
+
+  const city = /^(\p{L}[\p{L}\p{M} .'-]*?) ?, ?([A-Za-z]{2})$/u.exec(location);
+  if (city) {
+    const region = city[2]!.toUpperCase();
+    return US_STATES.has(region) || CA_PROVINCES.has(region) ? `${city[1]}, ${region}` : undefined;
+  }
+
+  return undefined;
+}
+
+// Same as parseLocation, but rejects unsupported formats before they cost an upstream request
+function normalizeLocation(value: string, path: string = 'location'): string {
+  const location = parseLocation(value);
+  if (!location) {
+    throw new InvalidParamsError([
+      { in: 'arguments', path, message: `"${value}" is not a supported location - use ${LOCATION_FORMATS}` },
+    ]);
+  }
+  return location;
+}
+
+function withNormalizedLocation<T extends { location?: string }>(params: T): T {
+  return params.location === undefined ? params : { ...params, location: normalizeLocation(params.location) };
+}
+
+// =============================================================================
+// JSON SCHEMA UTILITIES
+// =============================================================================
+
+function zodToMCPSchema(schema: z.ZodObject<any>) {
+  const jsonSchema = z.toJSONSchema(schema) as any;
+  
+  // Fix the required array - remove fields that are optional or have defaults
+  if (jsonSchema.required && Array.isArray(jsonSchema.required)) {
+    const shape = schema.shape;
+    jsonSchema.required = jsonSchema.required.filter((fieldName: string) => {
+      const field = shape[fieldName];
+      // Remove from required if field is optional or has a default
+      return !field.isOptional() && field._def.defaultValue === undefined;
+    });
+    
+    // If no truly required fields, remove the required array entirely
+    if (jsonSchema.required.length === 0) {
+      delete jsonSchema.required;
+    }
+  }
+  
+  return jsonSchema;
+}
+
+// =============================================================================
+// MCP TOOL IMPLEMENTATIONS
+// =============================================================================
+
+// Tools return the parsed Petfinder payload as structuredContent alongside a
+// short text summary, so clients never have to re-parse a JSON text blob
+function structuredResult<T>(summary: string, structuredContent: T, details?: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: summary,
+      },
+      ...(details ? [{ type: 'text', text: details }] : []),
+    ],
+    structuredContent,
+  };
+}
+
+function compactAnimal(animal: z.infer<typeof animalSchema>): z.infer<typeof compactAnimalSchema> {
+  const photo = animal.photos?.[0];
+  return {
+    id: animal.id,
+    name: animal.name,
+    breed: animal.breeds?.secondary
+      ? `${animal.breeds.primary} / ${animal.breeds.secondary}`
+      : animal.breeds?.primary,
+    age: animal.age,
+    size: animal.size,
+    gender: animal.gender,
+    distance: animal.distance,
+    city: animal.contact?.address?.city,
+    state: animal.contact?.address?.state,
+    photo: photo?.medium ?? photo?.full ?? photo?.large ?? photo?.small,
+    url: animal.url,
+  };
+}
+
+function compactOrganization(
+  organization: z.infer<typeof organizationSchema>
+): z.infer<typeof compactOrganizationSchema> {
+  return {
+    id: organization.id,
+    name: organization.name,
+    city: organization.address?.city,
+    state: organization.address?.state,
+    email: organization.email,
+    phone: organization.phone,
+    website: organization.website,
+    distance: organization.distance,
+    url: organization.url,
+  };
+}
+
+function markdownTable(headers: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  const cell = (value: string | number | null | undefined) =>
+    value === null || value === undefined || value === '' ? '-' : String(value).replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function formatDistance(distance: number | null | undefined): string | undefined {
+  return typeof distance === 'number' ? `${distance.toFixed(1)} mi` : undefined;
+}
+
+function formatLocation(city: string | null | undefined, state: string | null | undefined) {
+  return [city, state].filter(Boolean).join(', ');
+}
+
+function renderAnimalsMarkdown(animals: Array<z.infer<typeof compactAnimalSchema>>): string {
+  return markdownTable(
+    ['ID', 'Name', 'Breed', 'Age', 'Size', 'Gender', 'Distance', 'Location', 'Profile'],
+    animals.map((animal) => [
+      animal.id,
+      animal.name,
+      animal.breed,
+      animal.age,
+      animal.size,
+      animal.gender,
+      formatDistance(animal.distance),
+      formatLocation(animal.city, animal.state),
+      animal.url ? `[link](${animal.url})` : undefined,
+    ])
+  );
+}
+
+function renderOrganizationsMarkdown(
+  organizations: Array<z.infer<typeof compactOrganizationSchema>>
+): string {
+  return markdownTable(
+    ['ID', 'Name', 'Location', 'Email', 'Phone', 'Distance', 'Profile'],
+    organizations.map((organization) => [
+      organization.id,
+      organization.name,
+      formatLocation(organization.city, organization.state),
+      organization.email,
+      organization.phone,
+      formatDistance(organization.distance),
+      organization.url ? `[link](${organization.url})` : undefined,
+    ])
+  );
+}
+
+function describePagination(pagination: z.infer<typeof paginationSchema>): string {
+  return `page ${pagination.current_page} of ${pagination.total_pages}, ${pagination.total_count} total`;
+}
+
+function describeAnimal(animal: z.infer<typeof animalSchema>): string {
+  const details = [animal.breeds?.primary, animal.age, animal.size, animal.gender].filter(Boolean);
+  return `${animal.name ?? 'Unnamed'} (${details.join(', ')})${animal.status ? ` - ${animal.status}` : ''}`;
+}
+
+function matchesClientFilters(
+  animal: z.infer<typeof animalSchema>,
+  { has_photos, description_contains }: z.infer<typeof animalClientFilterSchema>
+): boolean {
+  if (has_photos !== undefined && (animal.photos?.length ?? 0) > 0 !== has_photos) {
+    return false;
+  }
+  // Petfinder truncates descriptions, so only the returned text is searched
+  if (
+    description_contains !== undefined &&
+    !(animal.description ?? '').toLowerCase().includes(description_contains.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Query params go to Petfinder as-is. Client-side filters are applied to
+ * each fetched page, paging forward until limit animals match or the page
+ * budget runs out. Scanning stops at the animal that fills limit, and
+ * next_page/next_offset point just past it so the next call has no gaps.
+ */
+async function searchPets(input: any, context: RequestContext) {
+  // Apply defaults before validation
+  const inputWithDefaults = {
+    status: 'adoptable',
+    sort: 'recent',
+    page: 1,
+    limit: 20,
+    ...(await resolveSearchTerms(context, input)) // User input overrides defaults
+  };
+  
+  const { format, has_photos, description_contains, page_offset, ...query } = parseArguments(
+    animalSearchToolSchema,
+    inputWithDefaults
+  );
+  const clientFilters = { has_photos, description_contains };
+  const filters = {
+    server_side: Object.keys(query).filter(
+      (key) => !['page', 'limit', 'sort'].includes(key) && query[key as keyof typeof query] !== undefined
+    ),
+    client_side: Object.keys(clientFilters).filter(
+      (key) => clientFilters[key as keyof typeof clientFilters] !== undefined
+    ),
+  };
+
+  let result = animalSearchOutputSchema.parse(await searchAnimals(context, query));
+  let summary = `Found ${result.animals.length} pets matching your search criteria (${describePagination(result.pagination)}).`;
+  let clientFiltering: z.infer<typeof animalSearchToolOutputSchema>['client_filtering'];
+
+  if (filters.client_side.length > 0) {
+    const matches: typeof result.animals = [];
+    let pagesScanned = 0;
+    let animalsScanned = 0;
+    let resume: { page: number; offset: number } | null = null;
+
+    for (let skip = page_offset ?? 0; ; skip = 0) {
+      const page = result.pagination.current_page;
+      pagesScanned++;
+
+      let index = skip;
+      while (index < result.animals.length && matches.length < query.limit) {
+        const animal = result.animals[index++]!;
+        animalsScanned++;
+        if (matchesClientFilters(animal, clientFilters)) {
+          matches.push(animal);
+        }
+      }
+
+      if (index < result.animals.length) {
+        resume = { page, offset: index };
+        break;
+      }
+      if (page >= result.pagination.total_pages) {
+        break;
+      }
+      if (matches.length >= query.limit || pagesScanned >= CLIENT_FILTER_MAX_PAGES) {
+        resume = { page: page + 1, offset: 0 };
+        break;
+      }
+
+      if (UPSTREAM_PAGE_DELAY_MS > 0) {
+        await sleep(UPSTREAM_PAGE_DELAY_MS);
+      }
+      result = animalSearchOutputSchema.parse(await searchAnimals(context, { ...query, page: page + 1 }));
+    }
+
+    clientFiltering = {
+      pages_scanned: pagesScanned,
+      animals_scanned: animalsScanned,
+      budget_exhausted: matches.length < query.limit && resume !== null,
+      next_page: resume?.page ?? null,
+      next_offset: resume?.offset ?? 0,
+    };
+    result = { ...result, animals: matches };
+    summary =
+      `Found ${matches.length} pets matching your search criteria after scanning ${animalsScanned} pets across ${pagesScanned} pages ` +
+      `(client-side filters: ${filters.client_side.join(', ')}).` +
+      (clientFiltering.budget_exhausted
+        ? ` Stopped at the ${CLIENT_FILTER_MAX_PAGES}-page budget - continue from page ${clientFiltering.next_page}.`
+        : '');
+  }
+
+  const meta = { filters, ...(clientFiltering ? { client_filtering: clientFiltering } : {}) };
+
+  if (format === 'full') {
+    return structuredResult(summary, { ...result, ...meta });
+  }
+
+  const animals = result.animals.map(compactAnimal);
+  return structuredResult(
+    summary,
+    { animals, pagination: result.pagination, ...meta },
+    format === 'markdown' ? renderAnimalsMarkdown(animals) : undefined
+  );
+}
+
+/**
+ * Follows pagination.total_pages, merging pages and de-duplicating animals by
+ * ID (sorts like "random" can repeat animals across pages). Stops at
+ * max_results or the page ceiling and reports which limit cut it short.
+ */
+async function searchAllPets(input: any, context: RequestContext) {
+  const { format, max_results, max_pages, ...query } = parseArguments(animalSearchAllToolSchema, {
+    status: 'adoptable',
+    sort: 'recent',
+    ...(await resolveSearchTerms(context, input)) // User input overrides defaults
+  });
+  const pageCeiling = Math.min(max_pages ?? SEARCH_ALL_MAX_PAGES, SEARCH_ALL_MAX_PAGES);
+  const animals = new Map<number, z.infer<typeof animalSchema>>();
+
+  let page = 1;
+  let totalPages = 1;
+  let totalCount = 0;
+  let pagesFetched = 0;
+
+  while (page <= totalPages && pagesFetched < pageCeiling && animals.size < max_results) {
+    if (pagesFetched > 0 && UPSTREAM_PAGE_DELAY_MS > 0) {
+      await sleep(UPSTREAM_PAGE_DELAY_MS);
+    }
+
+    const result = animalSearchOutputSchema.parse(
+      await searchAnimals(context, { ...query, page, limit: 100 })
+    );
+    pagesFetched++;
+    totalPages = result.pagination.total_pages;
+    totalCount = result.pagination.total_count;
+
+    for (const animal of result.animals) {
+      if (!animals.has(animal.id)) {
+        animals.set(animal.id, animal);
+      }
+    }
+    page++;
+  }
+
+  const collected = [...animals.values()].slice(0, max_results);
+  const moreAvailable = page <= totalPages || animals.size > max_results;
+  const truncatedReason = !moreAvailable
+    ? undefined
+    : collected.length >= max_results
+      ? ('max_results' as const)
+      : ('max_pages' as const);
+
+  const summary =
+    `Collected ${collected.length} of ${totalCount} pets matching your search criteria across ${pagesFetched} pages.` +
+    (truncatedReason === 'max_results'
+      ? ` Results were truncated at max_results (${max_results}).`
+      : truncatedReason === 'max_pages'
+        ? ` Results were truncated at the ${pageCeiling}-page limit.`
+        : '');
+  const meta = {
+    total_count: totalCount,
+    pages_fetched: pagesFetched,
+    truncated: truncatedReason !== undefined,
+    ...(truncatedReason ? { truncated_reason: truncatedReason } : {}),
+  };
+
+  if (format === 'full') {
+    return structuredResult(summary, { animals: collected, ...meta });
+  }
+
+  const compactAnimals = collected.map(compactAnimal);
+  return structuredResult(
+    summary,
+    { animals: compactAnimals, ...meta },
+    format === 'markdown' ? renderAnimalsMarkdown(compactAnimals) : undefined
+  );
+}
+
+/**
+ * Runs one distance-sorted search per location and merges the results by
+ * animal ID, ranking each animal by its smallest distance to any location.
+ */
+async function searchPetsNear(input: any, context: RequestContext) {
+  const { format, locations, ...query } = parseArguments(animalSearchNearToolSchema, {
+    status: 'adoptable',
+    limit: 20,
+    ...(await resolveSearchTerms(context, input)) // User input overrides defaults
+  });
+  const normalizedLocations = [
+    ...new Set(locations.map((location, index) => normalizeLocation(location, `locations[${index}]`))),
+  ];
+
+  const searches = await Promise.all(
+    normalizedLocations.map(async (location) => ({
+      location,
+      result: animalSearchOutputSchema.parse(
+        await searchAnimals(context, { ...query, location, sort: 'distance', page: 1 })
+      ),
+    }))
+  );
+
+  const merged = new Map<number, { animal: z.infer<typeof animalSchema>; distances: Record<string, number | null> }>();
+  for (const { location, result } of searches) {
+    for (const animal of result.animals) {
+      const entry = merged.get(animal.id) ?? { animal, distances: {} };
+      entry.distances[location] = animal.distance ?? null;
+      merged.set(animal.id, entry);
+    }
+  }
+
+  const byDistance = (a: number | null, b: number | null) => (a ?? Infinity) - (b ?? Infinity);
+  const ranked = [...merged.values()]
+    .map(({ animal, distances }) => {
+      const [nearestLocation, distance] = Object.entries(distances).sort(([, a], [, b]) => byDistance(a, b))[0]!;
+      return { animal: { ...animal, distance }, distance, nearest_location: nearestLocation, distances };
+    })
+    .sort((a, b) => byDistance(a.distance, b.distance));
+
+  const summary = `Found ${ranked.length} pets near ${normalizedLocations.join(' / ')}, ranked by distance to the closest location.`;
+  const locationCounts = searches.map(({ location, result }) => ({
+    location,
+    total_count: result.pagination.total_count,
+    returned: result.animals.length,
+  }));
+
+  if (format === 'full') {
+    return structuredResult(summary, { matches: ranked, locations: locationCounts });
+  }
+
+  const matches = ranked.map((match) => ({ ...match, animal: compactAnimal(match.animal) }));
+  return structuredResult(
+    summary,
+    { matches, locations: locationCounts },
+    format === 'markdown' ? renderAnimalsMarkdown(matches.map((match) => match.animal)) : undefined
+  );
+}
+
+async function getPet(input: unknown, context: RequestContext) {
+  const { id } = parseArguments(animalGetSchema, input);
+  const result = animalGetOutputSchema.parse(await getAnimal(context, { id }));
+  return structuredResult(
+    `Pet details for ID ${id}: ${describeAnimal(result.animal)}`,
+    result
+  );
+}
+
+async function searchOrgs(input: any, context: RequestContext) {
+  // Apply defaults before validation
+  const inputWithDefaults = {
+    page: 1,
+    limit: 20,
+    ...input // User input overrides defaults
+  };
+  
+  const { format, ...query } = parseArguments(organizationSearchToolSchema, inputWithDefaults);
+  const result = organizationSearchOutputSchema.parse(
+    await searchOrganizations(context, query)
+  );
+  const summary = `Found ${result.organizations.length} organizations matching your search criteria (${describePagination(result.pagination)}).`;
+
+  if (format === 'full') {
+    return structuredResult(summary, result);
+  }
+
+  const organizations = result.organizations.map(compactOrganization);
+  return structuredResult(
+    summary,
+    { organizations, pagination: result.pagination },
+    format === 'markdown' ? renderOrganizationsMarkdown(organizations) : undefined
+  );
+}
+
+async function getOrg(input: unknown, context: RequestContext) {
+  const { id } = parseArguments(organizationGetSchema, input);
+  const result = organizationGetOutputSchema.parse(await getOrganization(context, { id }));
+  const { name, address } = result.organization;
+  const place = [address?.city, address?.state].filter(Boolean).join(', ');
+  return structuredResult(
+    `Organization details for ID ${id}: ${name ?? 'Unnamed'}${place ? ` (${place})` : ''}`,
+    result
+  );
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | null | undefined): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const value = key(item) ?? 'Unknown';
+    counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function describeCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, count]) => `${count} ${name}`)
+    .join(', ');
+}
+
+/**
+ * Joins an organization record with its adoptable animals, paging through
+ * them (up to ORGANIZATION_PROFILE_MAX_PAGES) to break the inventory down
+ * by type, age and size.
+ */
+async function getOrgProfile(input: any, context: RequestContext) {
+  const { id, animal_limit } = parseArguments(organizationProfileSchema, input);
+
+  const [{ organization }, animals] = await Promise.all([
+    getOrganization(context, { id }).then((result) => organizationGetOutputSchema.parse(result)),
+    (async () => {
+      const collected: Array<z.infer<typeof animalSchema>> = [];
+      let page = 1;
+      let totalPages = 1;
+      let totalCount = 0;
+
+      while (page <= totalPages && page <= ORGANIZATION_PROFILE_MAX_PAGES) {
+        if (page > 1 && UPSTREAM_PAGE_DELAY_MS > 0) {
+          await sleep(UPSTREAM_PAGE_DELAY_MS);
+        }
+        const result = animalSearchOutputSchema.parse(
+          await searchAnimals(context, { organization: [id], status: 'adoptable', sort: 'recent', page, limit: 100 })
+        );
+        collected.push(...result.animals);
+        totalPages = result.pagination.total_pages;
+        totalCount = result.pagination.total_count;
+        page++;
+      }
+      return { collected, totalCount, truncated: page <= totalPages };
+    })(),
+  ]);
+
+  const inventory = {
+    total_count: animals.totalCount,
+    counted: animals.collected.length,
+    truncated: animals.truncated,
+    by_type: countBy(animals.collected, (animal) => animal.type),
+    by_age: countBy(animals.collected, (animal) => animal.age),
+    by_size: countBy(animals.collected, (animal) => animal.size),
+  };
+  const profile = {
+    id: organization.id,
+    name: organization.name,
+    email: organization.email,
+    phone: organization.phone,
+    website: organization.website,
+    url: organization.url,
+    mission_statement: organization.mission_statement,
+    address: organization.address,
+    hours: organization.hours,
+    adoption: organization.adoption,
+    social_media: Object.fromEntries(
+      Object.entries(organization.social_media ?? {}).filter((entry): entry is [string, string] => !!entry[1])
+    ),
+  };
+
+  const place = formatLocation(organization.address?.city, organization.address?.state);
+  const summary =
+    `${organization.name ?? 'Unnamed'}${place ? ` (${place})` : ''} has ${animals.totalCount} adoptable pets` +
+    (animals.collected.length > 0 ? `: ${describeCounts(inventory.by_type)}` : '') +
+    (animals.truncated ? ` (breakdown covers the ${animals.collected.length} most recent).` : '.');
+
+  return structuredResult(summary, {
+    organization: profile,
+    inventory,
+    animals: animals.collected.slice(0, animal_limit).map(compactAnimal),
+  });
+}
+
+async function listAnimalTypes(input: unknown, context: RequestContext) {
+  parseArguments(animalTypesSchema, input);
+  const result = animalTypesOutputSchema.parse(await getAnimalTypes(context));
+  return structuredResult(
+    `Available animal types: ${result.types.map((type) => type.name).join(', ')}`,
+    result
+  );
+}
+
+async function getAnimalTypeDetails(input: unknown, context: RequestContext) {
+  const { type } = parseArguments(animalTypeSchema, input);
+  const { slug } = await resolveAnimalType(context, type);
+  const result = animalTypeOutputSchema.parse(await getAnimalType(context, { type: slug }));
+  return structuredResult(`Animal type details for ${type}: ${result.type.name}`, result);
+}
+
+async function listAnimalBreeds(input: unknown, context: RequestContext) {
+  const type = await resolveAnimalType(context, parseArguments(animalBreedsSchema, input).type);
+  const result = animalBreedsOutputSchema.parse(await getAnimalBreeds(context, { type: type.slug }));
+  return structuredResult(
+    `Found ${result.breeds.length} breeds for ${type.name}.`,
+    result
+  );
+}
+
+// =============================================================================
+// SAVED SEARCHES - Per-client queries with new-match detection
+// =============================================================================
+
+type SavedSearchQuery = z.infer<typeof savedSearchQuerySchema>;
+
+interface SavedSearchRecord {
+  id: string;
+  tenant: string; // See tenantKey
+  name: string;
+  query: SavedSearchQuery;
+  createdAt: number; // Unix timestamp in ms
+  lastCheckedAt: number | null; // Unix timestamp in ms
+}
+
+interface SavedSearchRow {
+  id: string;
+  tenant: string;
+  name: string;
+  query: string;
+  created_at: number;
+  last_checked_at: number | null;
+}
+
+/**
+ * SQLite-backed store for saved searches and the animal IDs each one has
+ * already reported. Every lookup is scoped to the owning tenant, so one
+ * tenant can never read or delete another tenant's searches.
+ */
+export class SavedSearchStore {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run(
+      'CREATE TABLE IF NOT EXISTS saved_searches (id TEXT PRIMARY KEY, tenant TEXT NOT NULL, name TEXT NOT NULL, query TEXT NOT NULL, created_at INTEGER NOT NULL, last_checked_at INTEGER)'
+    );
+    this.db.run(
+      'CREATE TABLE IF NOT EXISTS seen_animals (search_id TEXT NOT NULL, animal_id INTEGER NOT NULL, seen_at INTEGER NOT NULL, PRIMARY KEY (search_id, animal_id))'
+    );
+  }
+
+  create(tenant: string, name: string, query: SavedSearchQuery): SavedSearchRecord {
+    const record: SavedSearchRecord = {
+      id: crypto.randomUUID(),
+      tenant,
+      name,
+      query,
+      createdAt: Date.now(),
+      lastCheckedAt: null,
+    };
+    this.db.run(
+      'INSERT INTO saved_searches (id, tenant, name, query, created_at) VALUES (?, ?, ?, ?, ?)',
+      [record.id, tenant, name, JSON.stringify(query), record.createdAt]
+    );
+    return record;
+  }
+
+  list(tenant: string): SavedSearchRecord[] {
+    return this.db
+      .query<SavedSearchRow, [string]>('SELECT * FROM saved_searches WHERE tenant = ? ORDER BY created_at')
+      .all(tenant)
+      .map(toSavedSearchRecord);
+  }
+
+  get(tenant: string, id: string): SavedSearchRecord | undefined {
+    const row = this.db
+      .query<SavedSearchRow, [string, string]>('SELECT * FROM saved_searches WHERE tenant = ? AND id = ?')
+      .get(tenant, id);
+    return row ? toSavedSearchRecord(row) : undefined;
+  }
+
+  delete(tenant: string, id: string): boolean {
+    const { changes } = this.db.run('DELETE FROM saved_searches WHERE tenant = ? AND id = ?', [tenant, id]);
+    if (changes > 0) {
+      this.db.run('DELETE FROM seen_animals WHERE search_id = ?', [id]);
+    }
+    return changes > 0;
+  }
+
+  // Returns the subset of animalIds this search has not reported before
+  unseen(searchId: string, animalIds: number[]): Set<number> {
+    const seen = this.db.query<{ animal_id: number }, [string, number]>(
+      'SELECT animal_id FROM seen_animals WHERE search_id = ? AND animal_id = ?'
+    );
+    return new Set(animalIds.filter((animalId) => !seen.get(searchId, animalId)));
+  }
+
+  markChecked(searchId: string, animalIds: number[], checkedAt: number) {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO seen_animals (search_id, animal_id, seen_at) VALUES (?, ?, ?)'
+    );
+    this.db.transaction(() => {
+      for (const animalId of animalIds) {
+        insert.run(searchId, animalId, checkedAt);
+      }
+      this.db.run('UPDATE saved_searches SET last_checked_at = ? WHERE id = ?', [checkedAt, searchId]);
+    })();
+  }
+}
+
+function toSavedSearchRecord(row: SavedSearchRow): SavedSearchRecord {
+  return {
+    id: row.id,
+    tenant: row.tenant,
+    name: row.name,
+    query: JSON.parse(row.query) as SavedSearchQuery,
+    createdAt: row.created_at,
+    lastCheckedAt: row.last_checked_at,
+  };
+}
+
+// Opened on first use so the database file only appears once searches are used
+let savedSearchStore: SavedSearchStore | undefined;
+
+function getSavedSearchStore(): SavedSearchStore {
+  savedSearchStore ??= new SavedSearchStore(SAVED_SEARCHES_PATH);
+  return savedSearchStore;
+}
+
+export function setSavedSearchStore(store: SavedSearchStore) {
+  savedSearchStore = store;
+}
+
+let savedSearchPollSeconds = SAVED_SEARCH_POLL_SECONDS;
+
+// Applies to watchers armed from now on
+export function setSavedSearchPollSeconds(seconds: number) {
+  savedSearchPollSeconds = seconds;
+}
+
+// Background checks by search ID, each bound to the session that armed it
+const searchWatchers = new Map<string, ReturnType<typeof setInterval>>();
+
+function stopWatchingSearch(id: string) {
+  clearInterval(searchWatchers.get(id));
+  searchWatchers.delete(id);
+}
+
+function findSavedSearch(context: RequestContext, id: string): SavedSearchRecord {
+  const record = getSavedSearchStore().get(tenantKey(context), id);
+  if (!record) {
+    throw new PetfinderAPIError(404, 'Not Found', { detail: `Saved search ${id} not found.` }, `Saved search ${id} not found`);
+  }
+  return record;
+}
+
+function toSavedSearch(record: SavedSearchRecord): z.infer<typeof savedSearchSchema> {
+  return {
+    id: record.id,
+    name: record.name,
+    query: record.query,
+    created_at: new Date(record.createdAt).toISOString(),
+    last_checked_at: record.lastCheckedAt === null ? null : new Date(record.lastCheckedAt).toISOString(),
+    watching: searchWatchers.has(record.id),
+  };
+}
+
+/**
+ * Re-runs a saved search newest-first and returns the animals it has not
+ * reported before, then records them as seen. Paging stops at the first page
+ * that contains an already-seen animal, since everything after it is older.
+ */
+async function checkSavedSearch(
+  record: SavedSearchRecord,
+  context: RequestContext,
+  maxPages: number = SAVED_SEARCH_MAX_PAGES
+) {
+  const store = getSavedSearchStore();
+  const newAnimals = new Map<number, z.infer<typeof animalSchema>>();
+
+  let page = 1;
+  let totalPages = 1;
+  let totalCount = 0;
+
+  while (page <= totalPages && page <= maxPages) {
+    if (page > 1 && UPSTREAM_PAGE_DELAY_MS > 0) {
+      await sleep(UPSTREAM_PAGE_DELAY_MS);
+    }
+
+    // Straight to Petfinder - a cached page could hide listings published since
+    const result = animalSearchOutputSchema.parse(
+      await fetchFromPetfinder(context, '/animals', { ...record.query, sort: 'recent', page, limit: 100 })
+    );
+    totalPages = result.pagination.total_pages;
+    totalCount = result.pagination.total_count;
+
+    const unseen = store.unseen(record.id, result.animals.map((animal) => animal.id));
+    for (const animal of result.animals) {
+      if (unseen.has(animal.id) && !newAnimals.has(animal.id)) {
+        newAnimals.set(animal.id, animal);
+      }
+    }
+    if (unseen.size < result.animals.length) {
+      break;
+    }
+    page++;
+  }
+
+  const checkedAt = Date.now();
+  store.markChecked(record.id, [...newAnimals.keys()], checkedAt);
+  return {
+    record: { ...record, lastCheckedAt: checkedAt },
+    newAnimals: [...newAnimals.values()],
+    totalCount,
+  };
+}
+
+/**
+ * Re-checks a saved search every savedSearchPollSeconds and pushes new
+ * matches to the client as a notifications/message. The watcher stops itself
+ * once the session closes or the search is deleted.
+ */
+function watchSavedSearch(record: SavedSearchRecord, context: RequestContext) {
+  const { notifier } = context;
+  if (!notifier || savedSearchPollSeconds <= 0) {
+    return;
+  }
+
+  stopWatchingSearch(record.id);
+  const timer = setInterval(async () => {
+    const current = getSavedSearchStore().get(tenantKey(context), record.id);
+    if (!current || !notifier.isOpen()) {
+      stopWatchingSearch(record.id);
+      return;
+    }
+
+    try {
+      const { newAnimals } = await checkSavedSearch(current, context);
+      if (newAnimals.length > 0) {
+        log.info('New matches for saved search', { search_id: record.id, new_count: newAnimals.length });
+        sendLogNotification(notifier, 'info', 'saved-searches', {
+          search_id: record.id,
+          name: record.name,
+          new_count: newAnimals.length,
+          new_animals: newAnimals.map(compactAnimal),
+        });
+      }
+    } catch (error) {
+      log.error('Background check failed for saved search', { search_id: record.id, error });
+    }
+  }, savedSearchPollSeconds * 1000);
+  // Never keep the process alive just for background checks
+  timer.unref?.();
+  searchWatchers.set(record.id, timer);
+}
+
+async function saveSearch(input: any, context: RequestContext) {
+  const { name, query } = parseArguments(searchSaveSchema, {
+    ...input,
+    query: await resolveSearchTerms(context, input?.query),
+  });
+  // Normalized up front: checks go straight to Petfinder, past searchAnimals
+  const created = getSavedSearchStore().create(tenantKey(context), name, withNormalizedLocation(query));
+
+  // Everything listed today is the baseline - only later listings count as new
+  const { record, totalCount } = await checkSavedSearch(created, context, 1);
+  watchSavedSearch(record, context);
+
+  return structuredResult(
+    `Saved search "${name}" (${record.id}) with ${totalCount} current matches.`,
+    { search: toSavedSearch(record), current_matches: totalCount }
+  );
+}
+
+async function listSavedSearches(input: unknown, context: RequestContext) {
+  parseArguments(searchListSchema, input);
+  const searches = getSavedSearchStore().list(tenantKey(context)).map(toSavedSearch);
+  return structuredResult(
+    searches.length > 0
+      ? `Found ${searches.length} saved searches: ${searches.map((search) => `"${search.name}" (${search.id})`).join(', ')}`
+      : 'No saved searches yet.',
+    { searches }
+  );
+}
+
+async function deleteSavedSearch(input: any, context: RequestContext) {
+  const { id } = parseArguments(searchDeleteSchema, input);
+  const deleted = getSavedSearchStore().delete(tenantKey(context), id);
+  if (deleted) {
+    stopWatchingSearch(id);
+  }
+
+  return structuredResult(
+    deleted ? `Deleted saved search ${id}.` : `Saved search ${id} not found.`,
+    { id, deleted }
+  );
+}
+
+async function checkNewMatches(input: any, context: RequestContext) {
+  const { id, format } = parseArguments(searchCheckNewSchema, input);
+  const { record, newAnimals } = await checkSavedSearch(findSavedSearch(context, id), context);
+
+  // Checking from a session that can receive notifications (re)arms its watcher
+  if (!searchWatchers.has(record.id)) {
+    watchSavedSearch(record, context);
+  }
+
+  const summary =
+    newAnimals.length > 0
+      ? `Found ${newAnimals.length} new pets for saved search "${record.name}" since the last check.`
+      : `No new pets for saved search "${record.name}" since the last check.`;
+  const meta = { search: toSavedSearch(record), new_count: newAnimals.length };
+
+  if (format === 'full') {
+    return structuredResult(summary, { ...meta, new_animals: newAnimals });
+  }
+
+  const compactAnimals = newAnimals.map(compactAnimal);
+  return structuredResult(
+    summary,
+    { ...meta, new_animals: compactAnimals },
+    format === 'markdown' && compactAnimals.length > 0 ? renderAnimalsMarkdown(compactAnimals) : undefined
+  );
+}
+
+// =============================================================================
+// FAVORITES - Per-client shortlist and side-by-side comparison
+// =============================================================================
+
+interface FavoriteRow {
+  animal_id: number;
+  name: string | null;
+  note: string | null;
+  status: string | null;
+  added_at: number;
+}
+
+/**
+ * SQLite-backed shortlist of pets per tenant (see tenantKey). The name and
+ * status are snapshots from when the pet was added, so the list reads without
+ * calling Petfinder and compare can tell when a status has moved on.
+ */
+export class FavoriteStore {
+  private db: Database;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.run(
+      'CREATE TABLE IF NOT EXISTS favorites (tenant TEXT NOT NULL, animal_id INTEGER NOT NULL, name TEXT, note TEXT, status TEXT, added_at INTEGER NOT NULL, PRIMARY KEY (tenant, animal_id))'
+    );
+  }
+
+  // Re-adding a pet keeps its original added_at and only refreshes the snapshot
+  add(tenant: string, favorite: Omit<FavoriteRow, 'added_at'>): { favorite: FavoriteRow; added: boolean } {
+    const existing = this.get(tenant, favorite.animal_id);
+    const row: FavoriteRow = {
+      ...favorite,
+      note: favorite.note ?? existing?.note ?? null,
+      added_at: existing?.added_at ?? Date.now(),
+    };
+    this.db.run(
+      'INSERT OR REPLACE INTO favorites (tenant, animal_id, name, note, status, added_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [tenant, row.animal_id, row.name, row.note, row.status, row.added_at]
+    );
+    return { favorite: row, added: !existing };
+  }
+
+  get(tenant: string, animalId: number): FavoriteRow | undefined {
+    return (
+      this.db
+        .query<FavoriteRow, [string, number]>(
+          'SELECT animal_id, name, note, status, added_at FROM favorites WHERE tenant = ? AND animal_id = ?'
+        )
+        .get(tenant, animalId) ?? undefined
+    );
+  }
+
+  list(tenant: string): FavoriteRow[] {
+    return this.db
+      .query<FavoriteRow, [string]>(
+        'SELECT animal_id, name, note, status, added_at FROM favorites WHERE tenant = ? ORDER BY added_at'
+      )
+      .all(tenant);
+  }
+
+  remove(tenant: string, animalId: number): boolean {
+    return this.db.run('DELETE FROM favorites WHERE tenant = ? AND animal_id = ?', [tenant, animalId]).changes > 0;
+  }
+}
+
+// Opened lazily, like the saved-search store
+let favoriteStore: FavoriteStore | undefined;
+
+function getFavoriteStore(): FavoriteStore {
+  favoriteStore ??= new FavoriteStore(FAVORITES_PATH);
+  return favoriteStore;
+}
+
+export function setFavoriteStore(store: FavoriteStore) {
+  favoriteStore = store;
+}
+
+function toFavorite(row: FavoriteRow): z.infer<typeof favoriteSchema> {
+  return {
+    id: row.animal_id,
+    name: row.name,
+    note: row.note,
+    status: row.status,
+    added_at: new Date(row.added_at).toISOString(),
+  };
+}
+
+async function addFavorite(input: any, context: RequestContext) {
+  const { id, note } = parseArguments(favoriteAddSchema, input);
+  // Fetching first rejects unknown IDs and captures the name for favorites.list
+  const { animal } = animalGetOutputSchema.parse(await getAnimal(context, { id }));
+  const { favorite, added } = getFavoriteStore().add(tenantKey(context), {
+    animal_id: id,
+    name: animal.name ?? null,
+    note: note ?? null,
+    status: animal.status ?? null,
+  });
+
+  return structuredResult(
+    added
+      ? `Added ${animal.name ?? `pet ${id}`} to favorites.`
+      : `${animal.name ?? `Pet ${id}`} is already a favorite - details updated.`,
+    { favorite: toFavorite(favorite), added }
+  );
+}
+
+async function removeFavorite(input: any, context: RequestContext) {
+  const { id } = parseArguments(favoriteRemoveSchema, input);
+  const removed = getFavoriteStore().remove(tenantKey(context), id);
+  return structuredResult(
+    removed ? `Removed pet ${id} from favorites.` : `Pet ${id} is not in favorites.`,
+    { id, removed }
+  );
+}
+
+async function listFavorites(input: unknown, context: RequestContext) {
+  parseArguments(favoriteListSchema, input);
+  const favorites = getFavoriteStore().list(tenantKey(context)).map(toFavorite);
+  return structuredResult(
+    favorites.length > 0
+      ? `Found ${favorites.length} favorites: ${favorites.map((favorite) => `${favorite.name ?? 'Unnamed'} (${favorite.id})`).join(', ')}`
+      : 'No favorites yet.',
+    { favorites }
+  );
+}
+
+function compareAnimal(
+  id: number,
+  animal: z.infer<typeof animalSchema> | undefined,
+  organization: z.infer<typeof organizationSchema> | undefined,
+  favorite: FavoriteRow | undefined
+): z.infer<typeof petComparisonSchema> {
+  const status = animal?.status ?? null;
+  const address = organization?.address ?? animal?.contact?.address;
+  return {
+    id,
+    name: animal?.name ?? favorite?.name ?? null,
+    url: animal?.url,
+    listed: animal !== undefined,
+    status,
+    // Pets that were delisted count as changed too
+    status_changed: status !== 'adoptable',
+    age: animal?.age,
+    size: animal?.size,
+    gender: animal?.gender,
+    breed: animal ? compactAnimal(animal).breed : undefined,
+    house_trained: animal?.attributes?.house_trained,
+    spayed_neutered: animal?.attributes?.spayed_neutered,
+    special_needs: animal?.attributes?.special_needs,
+    good_with_children: animal?.environment?.children,
+    good_with_dogs: animal?.environment?.dogs,
+    good_with_cats: animal?.environment?.cats,
+    organization: {
+      id: animal?.organization_id,
+      name: organization?.name,
+      email: animal?.contact?.email ?? organization?.email,
+      phone: animal?.contact?.phone ?? organization?.phone,
+      city: address?.city,
+      state: address?.state,
+    },
+  };
+}
+
+function renderComparisonMarkdown(pets: Array<z.infer<typeof petComparisonSchema>>): string {
+  const yesNo = (value: boolean | null | undefined) =>
+    value === true ? 'yes' : value === false ? 'no' : undefined;
+  const rows: Array<[string, (pet: z.infer<typeof petComparisonSchema>) => string | number | null | undefined]> = [
+    ['Status', (pet) => (pet.listed ? pet.status : 'no longer listed') + (pet.status_changed ? ' ⚠️' : '')],
+    ['Age', (pet) => pet.age],
+    ['Size', (pet) => pet.size],
+    ['Gender', (pet) => pet.gender],
+    ['Breed', (pet) => pet.breed],
+    ['House-trained', (pet) => yesNo(pet.house_trained)],
+    ['Spayed/neutered', (pet) => yesNo(pet.spayed_neutered)],
+    ['Special needs', (pet) => yesNo(pet.special_needs)],
+    ['Good with children', (pet) => yesNo(pet.good_with_children)],
+    ['Good with dogs', (pet) => yesNo(pet.good_with_dogs)],
+    ['Good with cats', (pet) => yesNo(pet.good_with_cats)],
+    ['Organization', (pet) => pet.organization.name ?? pet.organization.id],
+    ['Location', (pet) => formatLocation(pet.organization.city, pet.organization.state)],
+    ['Email', (pet) => pet.organization.email],
+    ['Phone', (pet) => pet.organization.phone],
+  ];
+  return markdownTable(
+    ['', ...pets.map((pet) => pet.name ?? `#${pet.id}`)],
+    rows.map(([label, value]) => [label, ...pets.map(value)])
+  );
+}
+
+/**
+ * Fetches every pet being compared (favorites by default) plus each distinct
+ * organization, then lines them up field by field. Pets that were adopted or
+ * delisted since they were added are flagged rather than failing the call.
+ */
+async function compareFavorites(input: any, context: RequestContext) {
+  const { ids } = parseArguments(favoriteCompareSchema, input);
+  const favorites = getFavoriteStore().list(tenantKey(context));
+  const petIds = ids ?? favorites.map((favorite) => favorite.animal_id);
+
+  if (petIds.length === 0) {
+    return structuredResult('No favorites to compare yet.', { pets: [], status_changed: [] });
+  }
+
+  const animals = await Promise.all(
+    petIds.map(async (id) => {
+      try {
+        return animalGetOutputSchema.parse(await getAnimal(context, { id })).animal;
+      } catch (error) {
+        if (error instanceof PetfinderAPIError && error.status === 404) {
+          return undefined;
+        }
+        throw error;
+      }
+    })
+  );
+
+  const organizationIds = [...new Set(animals.map((animal) => animal?.organization_id).filter((id): id is string => !!id))];
+  const organizations = new Map<string, z.infer<typeof organizationSchema>>();
+  await Promise.all(
+    organizationIds.map(async (id) => {
+      try {
+        organizations.set(id, organizationGetOutputSchema.parse(await getOrganization(context, { id })).organization);
+      } catch (error) {
+        // The listing's own contact details still fill the comparison
+        log.warn('Could not load organization for comparison', { organization_id: id, error });
+      }
+    })
+  );
+
+  const pets = petIds.map((id, index) => {
+    const animal = animals[index];
+    return compareAnimal(
+      id,
+      animal,
+      animal?.organization_id ? organizations.get(animal.organization_id) : undefined,
+      favorites.find((favorite) => favorite.animal_id === id)
+    );
+  });
+  const statusChanged = pets.filter((pet) => pet.status_changed).map((pet) => pet.id);
+
+  return structuredResult(
+    `Compared ${pets.length} pets.` +
+      (statusChanged.length > 0
+        ? ` No longer adoptable: ${pets
+            .filter((pet) => pet.status_changed)
+            .map((pet) => `${pet.name ?? 'Unnamed'} (${pet.listed ? pet.status : 'no longer listed'})`)
+            .join(', ')}.`
+        : ' All are still adoptable.'),
+    { pets, status_changed: statusChanged },
+    renderComparisonMarkdown(pets)
+  );
+}
+
+// =============================================================================
+// MCP PROTOCOL IMPLEMENTATION
+// =============================================================================
+
+interface MCPRequest {
+  jsonrpc: string;
+  id?: number | string;
+  method: string;
+  params?: any;
+}
+
+interface MCPResponse {
+  jsonrpc: string;
+  id: number | string | null; // null when the request id could not be determined
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: {
+      type?: string;
+      status?: number;
+      title?: string;
+      detail?: string;
+      'invalid-params'?: InvalidParam[];
+    };
+  };
+}
+
+interface InvalidParam {
+  in: string;
+  path: string;
+  message: string;
+  suggestions?: string[]; // Valid values close to what was sent
+  allowed?: string[]; // Every accepted value, for enum-like fields
+}
+
+// Arguments the server rejected itself, before anything reached Petfinder
+class InvalidParamsError extends Error {
+  constructor(public invalidParams: InvalidParam[]) {
+    super(invalidParams.map((param) => (param.path ? `${param.path}: ${param.message}` : param.message)).join('; '));
+    this.name = 'InvalidParamsError';
+  }
+}
+
+function invalidParamsFromZod(error: z.ZodError, location: string = 'arguments'): InvalidParam[] {
+  return error.issues.map((issue) => ({
+    in: location,
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+    allowed: issue.code === 'invalid_value' ? issue.values.map(String) : undefined,
+  }));
+}
+
+/**
+ * Validates tool arguments against their input schema. Unlike schema.parse,
+ * a failure becomes InvalidParamsError, so callers get -32602 with one entry
+ * per problem instead of an internal error carrying raw Zod text.
+ */
+function parseArguments<T extends z.ZodType>(schema: T, input: unknown, location: string = 'arguments'): z.output<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new InvalidParamsError(invalidParamsFromZod(parsed.error, location));
+  }
+  return parsed.data;
+}
+
+class PetfinderAPIError extends Error {
+  constructor(
+    public status: number,
+    public statusText: string,
+    public body: any,
+    message?: string
+  ) {
+    super(message || `Petfinder API error (${status}): ${statusText}`);
+    this.name = 'PetfinderAPIError';
+  }
+}
+
+function mapHTTPStatusToJSONRPCError(status: number): number {
+  switch (status) {
+    case 400: return -32602; // Invalid params
+    case 401: return -32001; // Unauthorized (custom code)
+    case 403: return -32002; // Forbidden (custom code)
+    case 404: return -32003; // Not found (custom code)
+    case 429: return -32004; // Rate limited (custom code)
+    case 500:
+    case 502:
+    case 503:
+    case 504: return -32603; // Internal error
+    default: return -32603; // Internal error
+  }
+}
+
+function createErrorResponse(
+  id: number | string | null,
+  error: Error | PetfinderAPIError,
+  fallbackCode: number = -32603
+): MCPResponse {
+  if (error instanceof InvalidParamsError) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: -32602,
+        message: 'Invalid params',
+        data: {
+          status: 400,
+          title: 'Invalid Request',
+          detail: error.message,
+          'invalid-params': error.invalidParams,
+        },
+      },
+    };
+  }
+
+  if (error instanceof PetfinderAPIError) {
+    const code = mapHTTPStatusToJSONRPCError(error.status);
+    let errorData: any = {
+      status: error.status,
+      title: error.statusText,
+      detail: error.message,
+    };
+
+    // Try to parse RFC 7807 error format from response body
+    try {
+      if (typeof error.body === 'string') {
+        const parsedBody = JSON.parse(error.body);
+        if (parsedBody.type) errorData.type = parsedBody.type;
+        if (parsedBody.title) errorData.title = parsedBody.title;
+        if (parsedBody.detail) errorData.detail = parsedBody.detail;
+        if (parsedBody['invalid-params']) {
+          errorData['invalid-params'] = parsedBody['invalid-params'];
+        }
+      } else if (typeof error.body === 'object' && error.body !== null) {
+        errorData = { ...errorData, ...error.body };
+      }
+    } catch {
+      // Keep original error data if parsing fails
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code,
+        message: getErrorMessage(error.status),
+        data: errorData,
+      },
+    };
+  }
+
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: {
+      code: fallbackCode,
+      message: error.message,
+    },
+  };
+}
+
+function getErrorMessage(status: number): string {
+  switch (status) {
+    case 400: return 'Invalid request parameters';
+    case 401: return 'Authentication failed - invalid credentials';
+    case 403: return 'Access denied - insufficient permissions';
+    case 404: return 'Resource not found';
+    case 429: return 'Rate limit exceeded';
+    case 500: return 'Internal server error';
+    case 502: return 'Bad gateway';
+    case 503: return 'Service unavailable';
+    case 504: return 'Gateway timeout';
+    default: return 'Unknown error';
+  }
+}
+
+const serverInfo = {
+  name: 'petfinder-mcp',
+  version: '1.0.0',
+};
+
+// Newest first - clients asking for anything else get the latest we speak
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0]!;
+}
+
+// =============================================================================
+// TOOL REGISTRY - One definition per tool; tools/list and tools/call derive from it
+// =============================================================================
+
+// Behavior hints clients use to decide, e.g., whether a call needs confirmation
+interface ToolAnnotations {
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean; // Reaches Petfinder rather than only this server's own stores
+}
+
+interface ToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: z.ZodObject<any>;
+  outputSchema: z.ZodObject<any>;
+  annotations: ToolAnnotations;
+  handler: (input: unknown, context: RequestContext) => Promise<unknown>;
+}
+
+const READ_PETFINDER: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+const READ_LOCAL: ToolAnnotations = { ...READ_PETFINDER, openWorldHint: false };
+
+const toolDefinitions: ToolDefinition[] = [
+  {
+    name: 'pets.search',
+    title: 'Search for adoptable pets',
+    description:
+      'Search for adoptable pets by type, breed, size, location, and other criteria. Optional parameters: status (default: "adoptable"), sort (default: "recent"), page (default: 1), limit (default: 20), format ("full", "compact" or "markdown"; default: "full" - use "compact" or "markdown" for large result sets). good_with_children, good_with_dogs, good_with_cats, house_trained, declawed and special_needs are applied by Petfinder; has_photos and description_contains (matched against the possibly truncated description) are applied after fetching, paging forward until limit pets match or the page budget runs out - pass client_filtering.next_page and next_offset back as page and page_offset to continue, and the output lists which filters ran where. type, breed, color and coat are matched to valid Petfinder values ("lab" -> "Labrador Retriever", "Golden retriever mix" -> "Golden Retriever"); ambiguous values fail with suggestions in invalid-params. Link hint: use the animal.url field in each result as the pet profile URLs.',
+    inputSchema: animalSearchToolSchema,
+    outputSchema: animalSearchToolOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: searchPets,
+  },
+  {
+    name: 'pets.search_all',
+    title: 'Search all pages of adoptable pets',
+    description:
+      'Search for adoptable pets like pets.search, but automatically follow every result page (100 pets per page) and merge and de-duplicate the animals. Use for exhaustive questions like "all senior cats within 25 miles". Optional parameters: max_results (default: 200, max: 1000), max_pages (capped by the server limit), format ("full", "compact" or "markdown"; default: "full"). The output says whether results were truncated and why.',
+    inputSchema: animalSearchAllToolSchema,
+    outputSchema: animalSearchAllOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: searchAllPets,
+  },
+  {
+    name: 'pets.search_near',
+    title: 'Search for pets near several locations',
+    description:
+      'Search for adoptable pets near several locations at once (for example home and work ZIP codes), with the same filters as pets.search. Runs one distance-sorted search per location, merges the results by pet, and ranks them by the smallest distance to any location. Locations: US ZIP, Canadian postal code, "City, ST" or "latitude,longitude" (up to 5). Optional parameters: distance, limit (per location, default: 20), format ("full", "compact" or "markdown"; default: "full").',
+    inputSchema: animalSearchNearToolSchema,
+    outputSchema: animalSearchNearOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: searchPetsNear,
+  },
+  {
+    name: 'pets.get',
+    title: 'Get pet details',
+    description: 'Get detailed information about a specific pet by ID.',
+    inputSchema: animalGetSchema,
+    outputSchema: animalGetOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: getPet,
+  },
+  {
+    name: 'organizations.search',
+    title: 'Search for animal welfare organizations',
+    description:
+      'Search for animal welfare organizations by name, location, and other criteria. Optional parameters: sort, page (default: 1), limit (default: 20), format ("full", "compact" or "markdown"; default: "full").',
+    inputSchema: organizationSearchToolSchema,
+    outputSchema: organizationSearchToolOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: searchOrgs,
+  },
+  {
+    name: 'organizations.get',
+    title: 'Get organization details',
+    description:
+      'Get detailed information about a specific organization by ID.',
+    inputSchema: organizationGetSchema,
+    outputSchema: organizationGetOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: getOrg,
+  },
+  {
+    name: 'organizations.profile',
+    title: 'Get an organization profile with its adoptable pets',
+    description:
+      'Get an organization together with what it has available right now: contact details, address, hours, adoption policy and social links, plus its adoptable pets broken down by type, age and size, and the most recently listed pets. Use instead of organizations.get followed by pets.search with organization. Optional parameters: animal_limit (pets to include, default: 20, max: 100).',
+    inputSchema: organizationProfileSchema,
+    outputSchema: organizationProfileOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: getOrgProfile,
+  },
+  {
+    name: 'searches.save',
+    title: 'Save a pet search',
+    description:
+      'Save a pet search (the same filters as pets.search) under a name so it can be re-checked later for newly listed pets. Pets listed today become the baseline. When the session can receive notifications, new matches are also pushed periodically as notifications/message.',
+    inputSchema: searchSaveSchema,
+    outputSchema: searchSaveOutputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    handler: saveSearch,
+  },
+  {
+    name: 'searches.list',
+    title: 'List saved searches',
+    description: 'List the saved pet searches for the current client.',
+    inputSchema: searchListSchema,
+    outputSchema: searchListOutputSchema,
+    annotations: READ_LOCAL,
+    handler: listSavedSearches,
+  },
+  {
+    name: 'searches.delete',
+    title: 'Delete a saved search',
+    description: 'Delete a saved pet search by ID.',
+    inputSchema: searchDeleteSchema,
+    outputSchema: searchDeleteOutputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+    handler: deleteSavedSearch,
+  },
+  {
+    name: 'searches.check_new',
+    title: 'Check a saved search for new pets',
+    description:
+      'Re-run a saved search sorted by most recent and return only the pets that were not seen on the previous check. Optional parameters: format ("full", "compact" or "markdown"; default: "full").',
+    inputSchema: searchCheckNewSchema,
+    outputSchema: searchCheckNewOutputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+    handler: checkNewMatches,
+  },
+  {
+    name: 'favorites.add',
+    title: 'Add a pet to favorites',
+    description:
+      'Add a pet to the shortlist of favorites by ID, with an optional note (for example why the user liked it). Favorites persist across conversations for the same client.',
+    inputSchema: favoriteAddSchema,
+    outputSchema: favoriteAddOutputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+    handler: addFavorite,
+  },
+  {
+    name: 'favorites.remove',
+    title: 'Remove a pet from favorites',
+    description: 'Remove a pet from the shortlist of favorites by ID.',
+    inputSchema: favoriteRemoveSchema,
+    outputSchema: favoriteRemoveOutputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+    handler: removeFavorite,
+  },
+  {
+    name: 'favorites.list',
+    title: 'List favorite pets',
+    description: 'List the pets on the shortlist of favorites, with their notes and status when added.',
+    inputSchema: favoriteListSchema,
+    outputSchema: favoriteListOutputSchema,
+    annotations: READ_LOCAL,
+    handler: listFavorites,
+  },
+  {
+    name: 'favorites.compare',
+    title: 'Compare favorite pets',
+    description:
+      'Compare favorite pets side by side: age, size, breed, house-trained, spayed/neutered, special needs, compatibility with children, dogs and cats, and organization contact details. Fetches current data for each pet and flags pets that are no longer adoptable. Optional parameters: ids (compare these pets instead of all favorites).',
+    inputSchema: favoriteCompareSchema,
+    outputSchema: favoriteCompareOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: compareFavorites,
+  },
+  {
+    name: 'types.list',
+    title: 'List animal types',
+    description: 'Get a list of all available animal types.',
+    inputSchema: animalTypesSchema,
+    outputSchema: animalTypesOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: listAnimalTypes,
+  },
+  {
+    name: 'types.get',
+    title: 'Get animal type details',
+    description:
+      'Get detailed information about a specific animal type. The type name is matched loosely ("Dogs", "small & furry").',
+    inputSchema: animalTypeSchema,
+    outputSchema: animalTypeOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: getAnimalTypeDetails,
+  },
+  {
+    name: 'breeds.list',
+    title: 'List animal breeds',
+    description:
+      'Get a list of breeds for a specific animal type. The type name is matched loosely ("Dogs", "small & furry").',
+    inputSchema: animalBreedsSchema,
+    outputSchema: animalBreedsOutputSchema,
+    annotations: READ_PETFINDER,
+    handler: listAnimalBreeds,
+  },
+];
+
+// Catches copy-paste mistakes when tools are added
+for (const [index, tool] of toolDefinitions.entries()) {
+  if (toolDefinitions.findIndex((other) => other.name === tool.name) !== index) {
+    throw new Error(`Duplicate tool definition: ${tool.name}`);
+  }
+}
+
+// Which tools are exposed. `enabled`, when present, is an allowlist and
+// `disabled` is removed from it; entries ending in * match a prefix
+interface ToolSelection {
+  enabled?: string[];
+  disabled: string[];
+}
+
+function parseToolList(value: string | undefined): string[] | undefined {
+  const names = value?.split(',').map((name) => name.trim()).filter(Boolean);
+  return names?.length ? names : undefined;
+}
+
+function matchesToolPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+function selectTools(selection: ToolSelection): Map<string, ToolDefinition> {
+  for (const pattern of [...(selection.enabled ?? []), ...selection.disabled]) {
+    if (!toolDefinitions.some((tool) => matchesToolPattern(tool.name, pattern))) {
+      log.warn('Tool selection entry matches no tool', { pattern });
+    }
+  }
+
+  return new Map(
+    toolDefinitions
+      .filter(
+        (tool) =>
+          (!selection.enabled || selection.enabled.some((pattern) => matchesToolPattern(tool.name, pattern))) &&
+          !selection.disabled.some((pattern) => matchesToolPattern(tool.name, pattern))
+      )
+      .map((tool) => [tool.name, tool])
+  );
+}
+
+let enabledTools = selectTools({
+  enabled: parseToolList(TOOLS_ENABLED),
+  disabled: parseToolList(TOOLS_DISABLED) ?? [],
+});
+
+// JSON Schema conversion is not free, so listings are built once per tool
+const toolListings = new Map(
+  toolDefinitions.map((tool) => [
+    tool.name,
+    {
+      name: tool.name,
+      title: tool.title,
+      description: tool.description,
+      inputSchema: zodToMCPSchema(tool.inputSchema),
+      outputSchema: zodToMCPSchema(tool.outputSchema),
+      annotations: tool.annotations,
+    },
+  ])
+);
+
+function findTool(name: string): ToolDefinition | undefined {
+  return enabledTools.get(name);
+}
+
+/**
+ * Swaps in a new tool selection and, if the set of exposed tools changed,
+ * tells every connected client to fetch tools/list again.
+ */
+function applyToolSelection(selection: ToolSelection, announce = true) {
+  const before = [...enabledTools.keys()].join(',');
+  enabledTools = selectTools(selection);
+  const after = [...enabledTools.keys()];
+  if (after.join(',') === before) {
+    return;
+  }
+
+  log.info('Enabled tools changed', { tools: after });
+  if (announce) {
+    broadcastNotification('notifications/tools/list_changed');
+  }
+}
+
+// Open sessions are told to refetch tools/list, as on a config reload
+export function setToolSelection(selection: Partial<ToolSelection>) {
+  applyToolSelection({ enabled: selection.enabled, disabled: selection.disabled ?? [] });
+}
+
+// TOOLS_CONFIG_FILE holds {"enabled"?: [...], "disabled"?: [...]} and wins over
+// the environment; it is polled so operators can flip tools without a restart
+let toolsConfigMtime: number | undefined;
+
+function reloadToolsConfigFile(announce = true) {
+  if (!TOOLS_CONFIG_FILE) {
+    return;
+  }
+
+  try {
+    const { mtimeMs } = statSync(TOOLS_CONFIG_FILE);
+    if (mtimeMs === toolsConfigMtime) {
+      return;
+    }
+    toolsConfigMtime = mtimeMs;
+
+    const config = JSON.parse(readFileSync(TOOLS_CONFIG_FILE, 'utf8')) as { enabled?: unknown; disabled?: unknown };
+    const names = (value: unknown) =>
+      Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : undefined;
+    applyToolSelection({ enabled: names(config.enabled), disabled: names(config.disabled) ?? [] }, announce);
+  } catch (error) {
+    log.error('Failed to load tools config', { path: TOOLS_CONFIG_FILE, error });
+  }
+}
+
+if (TOOLS_CONFIG_FILE) {
+  // Nobody is connected yet at startup, so there is no one to notify
+  reloadToolsConfigFile(false);
+  setInterval(reloadToolsConfigFile, TOOLS_CONFIG_POLL_MS).unref();
+}
+
+// Cursors are opaque to clients; inside they are just the next offset
+function encodeToolsCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+function decodeToolsCursor(cursor: unknown): number {
+  if (cursor === undefined) {
+    return 0;
+  }
+  const offset = typeof cursor === 'string' ? Number(Buffer.from(cursor, 'base64url').toString()) : NaN;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new InvalidParamsError([{ in: 'params', path: 'cursor', message: 'Invalid or expired cursor' }]);
+  }
+  return offset;
+}
+
+function listTools(cursor: unknown): { tools: unknown[]; nextCursor?: string } {
+  const offset = decodeToolsCursor(cursor);
+  const names = [...enabledTools.keys()];
+  const page = names.slice(offset, offset + TOOLS_LIST_PAGE_SIZE).map((name) => toolListings.get(name)!);
+  const next = offset + TOOLS_LIST_PAGE_SIZE;
+  return next < names.length ? { tools: page, nextCursor: encodeToolsCursor(next) } : { tools: page };
+}
+
+// =============================================================================
+// MCP RESOURCES
+// =============================================================================
+
+interface ResourceRoute {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  pattern: RegExp;
+  read: (params: string[], context: RequestContext) => Promise<unknown>;
+}
+
+// Order matters - the first route whose pattern matches a URI handles it
+const resourceRoutes: ResourceRoute[] = [
+  {
+    uriTemplate: 'petfinder://animals/{id}',
+    name: 'animal',
+    title: 'Pet profile',
+    description: 'Full Petfinder profile for a single animal, by numeric ID.',
+    pattern: /^petfinder:\/\/animals\/(\d+)$/,
+    read: ([id], context) => getAnimal(context, parseArguments(animalGetSchema, { id: Number(id) }, 'uri')),
+  },
+  {
+    uriTemplate: 'petfinder://organizations/{id}',
+    name: 'organization',
+    title: 'Organization profile',
+    description: 'Details for a single animal welfare organization, by ID.',
+    pattern: /^petfinder:\/\/organizations\/([^/]+)$/,
+    read: ([id], context) => getOrganization(context, parseArguments(organizationGetSchema, { id }, 'uri')),
+  },
+  {
+    uriTemplate: 'petfinder://types',
+    name: 'types',
+    title: 'Animal types',
+    description: 'All animal types with their valid coats, colors and genders.',
+    pattern: /^petfinder:\/\/types$/,
+    read: (_params, context) => getAnimalTypes(context),
+  },
+  {
+    uriTemplate: 'petfinder://types/{type}',
+    name: 'type',
+    title: 'Animal type',
+    description: 'Valid coats, colors and genders for a single animal type.',
+    pattern: /^petfinder:\/\/types\/([^/]+)$/,
+    read: ([type], context) => getAnimalType(context, parseArguments(animalTypeSchema, { type }, 'uri')),
+  },
+  {
+    uriTemplate: 'petfinder://types/{type}/breeds',
+    name: 'breeds',
+    title: 'Breeds for an animal type',
+    description: 'All breeds Petfinder knows for a single animal type.',
+    pattern: /^petfinder:\/\/types\/([^/]+)\/breeds$/,
+    read: ([type], context) => getAnimalBreeds(context, parseArguments(animalBreedsSchema, { type }, 'uri')),
+  },
+];
+
+const resourceTemplates = resourceRoutes
+  .filter((route) => route.uriTemplate.includes('{'))
+  .map(({ uriTemplate, name, title, description }) => ({
+    uriTemplate,
+    name,
+    title,
+    description,
+    mimeType: 'application/json',
+  }));
+
+// Types and breeds rarely change, so they are listed as concrete resources
+const resources = [
+  {
+    uri: 'petfinder://types',
+    name: 'types',
+    title: 'Animal types',
+    description: 'All animal types with their valid coats, colors and genders.',
+    mimeType: 'application/json',
+  },
+  ...animalTypeEnum.options.map((type) => ({
+    uri: `petfinder://types/${type}/breeds`,
+    name: `${type}-breeds`,
+    title: `Breeds for ${type}`,
+    description: `All breeds Petfinder knows for the ${type} animal type.`,
+    mimeType: 'application/json',
+  })),
+];
+
+function matchResourceRoute(uri: string): { route: ResourceRoute; params: string[] } | undefined {
+  for (const route of resourceRoutes) {
+    const match = route.pattern.exec(uri);
+    if (match) {
+      return { route, params: match.slice(1).map((param) => decodeURIComponent(param)) };
+    }
+  }
+  return undefined;
+}
+
+// =============================================================================
+// MCP PROMPTS
+// =============================================================================
+
+interface PromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+}
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required?: boolean }>;
+  argsSchema: z.ZodObject<any>;
+  build: (args: any, context: RequestContext) => Promise<PromptMessage[]>;
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function resourceMessage(uri: string, data: unknown): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+    },
+  };
+}
+
+// One line per animal keeps candidate lists small enough to reason over
+function summarizeAnimal(animal: z.infer<typeof animalSchema>): string {
+  const breed = [animal.breeds?.primary, animal.breeds?.secondary].filter(Boolean).join(' / ');
+  const place = [animal.contact?.address?.city, animal.contact?.address?.state].filter(Boolean).join(', ');
+  const details = [
+    breed || 'unknown breed',
+    animal.age,
+    animal.size,
+    animal.gender,
+    animal.attributes?.house_trained ? 'house-trained' : undefined,
+    animal.environment?.dogs === false ? 'not good with dogs' : undefined,
+    animal.environment?.cats === false ? 'not good with cats' : undefined,
+    animal.environment?.children === false ? 'not good with children' : undefined,
+    typeof animal.distance === 'number' ? `${animal.distance.toFixed(1)} mi` : undefined,
+    place || undefined,
+  ].filter(Boolean);
+  return `- ${animal.name} (ID ${animal.id}): ${details.join(', ')} - ${animal.url}`;
+}
+
+const prompts: PromptDefinition[] = [
+  {
+    name: 'find-apartment-dog',
+    title: 'Find a dog for apartment living',
+    description: 'Searches for small and medium adoptable dogs near a location and asks for the best apartment matches.',
+    arguments: [
+      { name: 'location', description: 'ZIP/postal code or "city, state" to search near', required: true },
+      { name: 'distance', description: 'Search radius in miles (default: 25)' },
+    ],
+    argsSchema: z.object({
+      location: z.string().min(1),
+      distance: z.coerce.number().int().positive().optional().default(25),
+    }),
+    async build({ location, distance }, context) {
+      const { animals } = animalSearchOutputSchema.parse(
+        await searchAnimals(
+          context,
+          animalSearchSchema.parse({
+            type: 'dog',
+            size: ['small', 'medium'],
+            location,
+            distance,
+            sort: 'distance',
+            limit: 50,
+          })
+        )
+      );
+
+      return [
+        textMessage(
+          `I live in an apartment near ${location} and want to adopt a dog. ` +
+            `Here are ${animals.length} adoptable small and medium dogs within ${distance} miles:\n\n` +
+            (animals.map(summarizeAnimal).join('\n') || '(no matches found)') +
+            `\n\nPick the best candidates for apartment living - consider size, energy level, age, ` +
+            `house-training and noise - and explain why each is a good fit. Include each dog's profile link.`
+        ),
+      ];
+    },
+  },
+  {
+    name: 'compare-pets',
+    title: 'Compare pets side by side',
+    description: 'Fetches several pets by ID and asks for a side-by-side comparison.',
+    arguments: [
+      { name: 'ids', description: 'Comma-separated pet IDs to compare', required: true },
+    ],
+    argsSchema: z.object({
+      ids: z.string().transform((value, ctx) => {
+        const ids = value.split(',').map((id) => Number(id.trim()));
+        if (ids.length < 2 || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+          ctx.addIssue({ code: 'custom', message: 'Expected at least two comma-separated numeric pet IDs' });
+          return z.NEVER;
+        }
+        return ids;
+      }),
+    }),
+    async build({ ids }: { ids: number[] }, context) {
+      const animals = await Promise.all(
+        ids.map(async (id) => animalGetOutputSchema.parse(await getAnimal(context, animalGetSchema.parse({ id }))))
+      );
+
+      return [
+        textMessage(
+          `Compare these ${ids.length} pets side by side. Cover age, size, breed, temperament, ` +
+            `health (spayed/neutered, shots, special needs), and compatibility with children, dogs ` +
+            `and cats. Finish with which pet suits which kind of household.`
+        ),
+        ...animals.map((animal, index) => resourceMessage(`petfinder://animals/${ids[index]}`, animal)),
+      ];
+    },
+  },
+  {
+    name: 'adoption-inquiry-email',
+    title: 'Draft an adoption inquiry email',
+    description: "Fetches a pet and its organization and drafts an inquiry email to the organization's contact address.",
+    arguments: [
+      { name: 'id', description: 'Pet ID to ask about', required: true },
+      { name: 'adopter_name', description: 'Name to sign the email with' },
+    ],
+    argsSchema: z.object({
+      id: z.coerce.number().int().positive(),
+      adopter_name: z.string().optional(),
+    }),
+    async build({ id, adopter_name }, context) {
+      const { animal } = animalGetOutputSchema.parse(await getAnimal(context, { id }));
+      const organization = animal.organization_id
+        ? organizationGetOutputSchema.parse(await getOrganization(context, { id: animal.organization_id }))
+        : undefined;
+
+      return [
+        textMessage(
+          `Draft a friendly, concise adoption inquiry email about ${animal.name} (pet ID ${id}) ` +
+            `to the organization below. Address it to their contact email if listed, mention the ` +
+            `pet's profile link (${animal.url}), ask whether ${animal.name} is still available and ` +
+            `what the next steps and fees are` +
+            (adopter_name ? `, and sign it as ${adopter_name}.` : '.')
+        ),
+        resourceMessage(`petfinder://animals/${id}`, { animal }),
+        ...(organization ? [resourceMessage(`petfinder://organizations/${animal.organization_id}`, organization)] : []),
+      ];
+    },
+  },
+];
+
+function isValidMCPRequest(message: unknown): message is MCPRequest {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    return false;
+  }
+
+  const { jsonrpc, method, id } = message as Record<string, unknown>;
+  return (
+    jsonrpc === '2.0' &&
+    typeof method === 'string' &&
+    (id === undefined || typeof id === 'string' || typeof id === 'number')
+  );
+}
+
+/**
+ * Handles one JSON-RPC message, whether sent alone or as part of a batch.
+ * Failures are turned into an error response for that message only, so one
+ * bad entry never takes down the rest of a batch.
+ */
+async function processMCPMessage(
+  message: unknown,
+  credentials: ClientCredentials,
+  notifier?: Notifier
+): Promise<MCPResponse | null> {
+  if (!isValidMCPRequest(message)) {
+    const id = (message as any)?.id;
+    recordJSONRPCError(-32600);
+    return {
+      jsonrpc: '2.0',
+      id: typeof id === 'string' || typeof id === 'number' ? id : null,
+      error: {
+        code: -32600,
+        message: 'Invalid Request',
+      },
+    };
+  }
+
+  // Tool arguments can be personal (names, locations), so they stay at debug
+  log.debug('MCP request', { method: message.method, id: message.id, params: redactValue(message.params) });
+
+  let response: MCPResponse | null;
+  try {
+    response = await handleMCPRequest(message, credentials, notifier);
+  } catch (error) {
+    log.error('Error handling MCP request', { method: message.method, error });
+    response = message.id === undefined
+      ? null
+      : createErrorResponse(message.id, error as Error);
+  }
+
+  if (response?.error) {
+    recordJSONRPCError(response.error.code);
+  }
+  return response;
+}
+
+/**
+ * Handles a JSON-RPC batch. Entries run in parallel and notifications produce
+ * no entry, so the result may be empty.
+ */
+async function processMCPBatch(
+  messages: unknown[],
+  credentials: ClientCredentials,
+  notifier?: Notifier
+): Promise<MCPResponse[]> {
+  log.debug('Processing batch', { size: messages.length });
+  const responses = await Promise.all(
+    messages.map((message) => processMCPMessage(message, credentials, notifier))
+  );
+  return responses.filter(
+    (response): response is MCPResponse => response !== null
+  );
+}
+
+// Credentials as supplied by the transport - either may be missing
+interface ClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+function extractCredentialsFromQuery(url: URL): ClientCredentials {
+  const clientId = url.searchParams.get('client-id') || undefined;
+  const clientSecret = url.searchParams.get('client-secret') || undefined;
+
+  if (clientId || clientSecret) {
+    log.debug('Found credentials in query params');
+  }
+
+  return { clientId, clientSecret };
 }
 
-// =============================================================================
-// MCP PROTOCOL IMPLEMENTATION
-// =============================================================================
+type APIKeyVault = Map<string, Required<ClientCredentials>>;
 
-interface MCPRequest {
-  jsonrpc: string;
-  id?: number | string;
-  method: string;
-  params?: any;
+// Where HTTP credentials may come from, seeded from the environment
+interface CredentialSources {
+  apiKeys?: string; // Inline vault JSON; PETFINDER_API_KEYS_FILE still wins
+  allowQueryCredentials: boolean;
 }
 
-interface MCPResponse {
-  jsonrpc: string;
-  id: number | string;
-  result?: any;
-  error?: {
-    code: number;
-    message: string;
-    data?: {
-      type?: string;
-      status?: number;
-      title?: string;
-      detail?: string;
-      'invalid-params'?: Array<{
-        in: string;
-        path: string;
-        message: string;
-      }>;
-    };
-  };
+let credentialSources: CredentialSources = {
+  apiKeys: PETFINDER_API_KEYS,
+  allowQueryCredentials: ALLOW_QUERY_CREDENTIALS,
+};
+
+let apiKeyVaultCache: { mtimeMs: number; vault: APIKeyVault } | undefined;
+
+export function setCredentialSources(sources: Partial<CredentialSources>) {
+  credentialSources = { ...credentialSources, ...sources };
+  apiKeyVaultCache = undefined;
 }
 
-class PetfinderAPIError extends Error {
-  constructor(
-    public status: number,
-    public statusText: string,
-    public body: any,
-    message?: string
-  ) {
-    super(message || `Petfinder API error (${status}): ${statusText}`);
-    this.name = 'PetfinderAPIError';
+function parseAPIKeyVault(json: string): APIKeyVault {
+  const entries = JSON.parse(json) as Record<string, { clientId?: string; clientSecret?: string }>;
+  const vault: APIKeyVault = new Map();
+
+  for (const [apiKey, entry] of Object.entries(entries)) {
+    if (entry?.clientId && entry?.clientSecret) {
+      vault.set(apiKey, { clientId: entry.clientId, clientSecret: entry.clientSecret });
+    } else {
+      log.warn('Ignoring API key vault entry without clientId/clientSecret');
+    }
   }
+
+  return vault;
 }
 
-function mapHTTPStatusToJSONRPCError(status: number): number {
-  switch (status) {
-    case 400: return -32602; // Invalid params
-    case 401: return -32001; // Unauthorized (custom code)
-    case 403: return -32002; // Forbidden (custom code)
-    case 404: return -32003; // Not found (custom code)
-    case 429: return -32004; // Rate limited (custom code)
-    case 500:
-    case 502:
-    case 503:
-    case 504: return -32603; // Internal error
-    default: return -32603; // Internal error
+function loadAPIKeyVault(): APIKeyVault {
+  if (PETFINDER_API_KEYS_FILE) {
+    try {
+      // Re-read on change so revoking a key takes effect without a restart
+      const { mtimeMs } = statSync(PETFINDER_API_KEYS_FILE);
+      if (apiKeyVaultCache?.mtimeMs !== mtimeMs) {
+        apiKeyVaultCache = {
+          mtimeMs,
+          vault: parseAPIKeyVault(readFileSync(PETFINDER_API_KEYS_FILE, 'utf8')),
+        };
+        log.info('Loaded API key vault', { keys: apiKeyVaultCache.vault.size, path: PETFINDER_API_KEYS_FILE });
+      }
+      return apiKeyVaultCache.vault;
+    } catch (error) {
+      log.error('Failed to load API key vault', { path: PETFINDER_API_KEYS_FILE, error });
+      return new Map();
+    }
+  }
+
+  if (credentialSources.apiKeys) {
+    if (!apiKeyVaultCache) {
+      try {
+        apiKeyVaultCache = { mtimeMs: 0, vault: parseAPIKeyVault(credentialSources.apiKeys) };
+      } catch (error) {
+        log.error('Failed to parse PETFINDER_API_KEYS', { error });
+        apiKeyVaultCache = { mtimeMs: 0, vault: new Map() };
+      }
+    }
+    return apiKeyVaultCache.vault;
   }
+
+  return new Map();
 }
 
-function createErrorResponse(
-  id: number | string,
-  error: Error | PetfinderAPIError,
-  fallbackCode: number = -32603
-): MCPResponse {
-  if (error instanceof PetfinderAPIError) {
-    const code = mapHTTPStatusToJSONRPCError(error.status);
-    let errorData: any = {
-      status: error.status,
-      title: error.statusText,
-      detail: error.message,
+function decodeBasicAuth(header: string): ClientCredentials {
+  try {
+    const decoded = atob(header.slice('Basic '.length).trim());
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return {};
+    }
+    return {
+      clientId: decoded.slice(0, separator) || undefined,
+      clientSecret: decoded.slice(separator + 1) || undefined,
     };
+  } catch {
+    return {};
+  }
+}
 
-    // Try to parse RFC 7807 error format from response body
-    try {
-      if (typeof error.body === 'string') {
-        const parsedBody = JSON.parse(error.body);
-        if (parsedBody.type) errorData.type = parsedBody.type;
-        if (parsedBody.title) errorData.title = parsedBody.title;
-        if (parsedBody.detail) errorData.detail = parsedBody.detail;
-        if (parsedBody['invalid-params']) {
-          errorData['invalid-params'] = parsedBody['invalid-params'];
-        }
-      } else if (typeof error.body === 'object' && error.body !== null) {
-        errorData = { ...errorData, ...error.body };
-      }
-    } catch {
-      // Keep original error data if parsing fails
+/**
+ * Resolves Petfinder credentials for an HTTP request. Methods are tried from
+ * most to least preferred: a vault API key (Authorization: Bearer or
+ * X-Api-Key), Authorization: Basic, X-Petfinder-Client-Id/-Secret headers,
+ * and finally client-id/client-secret query parameters when enabled.
+ */
+function extractCredentialsFromRequest(req: Request, url: URL): ClientCredentials {
+  const authorization = req.headers.get('authorization') ?? '';
+
+  const apiKey = authorization.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length).trim()
+    : req.headers.get('x-api-key');
+  if (apiKey) {
+    const credentials = loadAPIKeyVault().get(apiKey);
+    if (credentials) {
+      log.debug('Resolved credentials from API key');
+      return credentials;
     }
+    log.warn('Unknown or revoked API key');
+    return {};
+  }
+
+  if (authorization.startsWith('Basic ')) {
+    log.debug('Found credentials in Authorization: Basic header');
+    return decodeBasicAuth(authorization);
+  }
 
+  const headerClientId = req.headers.get('x-petfinder-client-id');
+  const headerClientSecret = req.headers.get('x-petfinder-client-secret');
+  if (headerClientId || headerClientSecret) {
+    log.debug('Found credentials in X-Petfinder-Client-Id/-Secret headers');
     return {
-      jsonrpc: '2.0',
-      id,
-      error: {
-        code,
-        message: getErrorMessage(error.status),
-        data: errorData,
-      },
+      clientId: headerClientId || undefined,
+      clientSecret: headerClientSecret || undefined,
     };
   }
 
+  if (!credentialSources.allowQueryCredentials) {
+    if (url.searchParams.has('client-secret')) {
+      log.warn('Ignoring client-secret query parameter - query credentials are disabled');
+    }
+    return {};
+  }
+
+  return extractCredentialsFromQuery(url);
+}
+
+function extractCredentialsFromEnv(): ClientCredentials {
+  return {
+    clientId: process.env.PETFINDER_CLIENT_ID || undefined,
+    clientSecret: process.env.PETFINDER_CLIENT_SECRET || undefined,
+  };
+}
+
+/**
+ * Proves the caller's secret, then charges the call to their limits. The
+ * order matters: a wrong secret must not drain another tenant's buckets.
+ */
+async function admitCall(clientId: string, clientSecret: string, limitKey: string): Promise<Error | undefined> {
+  try {
+    await getAccessToken(clientId, clientSecret);
+  } catch (error) {
+    return error as Error;
+  }
+  return checkCallLimits(clientId, limitKey);
+}
+
+function createAuthRequiredResponse(id: number | string): MCPResponse {
   return {
     jsonrpc: '2.0',
     id,
     error: {
-      code: fallbackCode,
-      message: error.message,
+      code: -32001,
+      message: STDIO_MODE
+        ? 'Authentication required - you need to set both PETFINDER_CLIENT_ID and PETFINDER_CLIENT_SECRET'
+        : credentialSources.allowQueryCredentials
+          ? 'Authentication required - pass a valid API key, an Authorization: Basic header, X-Petfinder-Client-Id and X-Petfinder-Client-Secret headers, or client-id and client-secret query parameters'
+          : 'Authentication required - pass a valid API key, an Authorization: Basic header, or X-Petfinder-Client-Id and X-Petfinder-Client-Secret headers',
     },
   };
 }
 
-function getErrorMessage(status: number): string {
-  switch (status) {
-    case 400: return 'Invalid request parameters';
-    case 401: return 'Authentication failed - invalid credentials';
-    case 403: return 'Access denied - insufficient permissions';
-    case 404: return 'Resource not found';
-    case 429: return 'Rate limit exceeded';
-    case 500: return 'Internal server error';
-    case 502: return 'Bad gateway';
-    case 503: return 'Service unavailable';
-    case 504: return 'Gateway timeout';
-    default: return 'Unknown error';
+// One log line and one metrics sample per tools/call, with what it cost upstream
+function reportToolCall(
+  tool: string,
+  startedAt: number,
+  stats: ToolCallStats,
+  errorCode?: number,
+  error?: unknown
+) {
+  const elapsedMs = performance.now() - startedAt;
+  const outcome = errorCode === undefined ? 'ok' : 'error';
+  metrics.toolCalls.inc({ tool, outcome });
+  metrics.toolDuration.observe({ tool }, elapsedMs / 1000);
+
+  const fields = {
+    tool,
+    latency_ms: Math.round(elapsedMs),
+    outcome,
+    error_code: errorCode,
+    error: error instanceof Error ? error.message : undefined,
+    upstream_statuses: stats.upstreamStatuses,
+    cache: stats.cacheOutcomes,
+  };
+  if (errorCode === undefined) {
+    log.info('Tool call', fields);
+  } else {
+    log.warn('Tool call failed', fields);
   }
 }
 
-const serverInfo = {
-  name: 'petfinder-mcp',
-  version: '1.0.0',
-};
+export async function handleMCPRequest(
+  request: MCPRequest,
+  credentials: ClientCredentials,
+  notifier?: Notifier
+): Promise<MCPResponse | null> {
+  // Notifications have no id and must never receive a response
+  if (request.id === undefined) {
+    log.debug('Notification received', { method: request.method });
+    return null;
+  }
 
-const tools = [
-  {
-    name: 'pets.search',
-    title: 'Search for adoptable pets',
-    description:
-      'Search for adoptable pets by type, breed, size, location, and other criteria. Optional parameters: status (default: "adoptable"), sort (default: "recent"), page (default: 1), limit (default: 20). Link hint: use the animal.url field in each result as the pet profile URLs.',
-    inputSchema: zodToMCPSchema(animalSearchSchema),
-  },
-  {
-    name: 'pets.get',
-    title: 'Get pet details',
-    description: 'Get detailed information about a specific pet by ID.',
-    inputSchema: zodToMCPSchema(animalGetSchema),
-  },
-  {
-    name: 'organizations.search',
-    title: 'Search for animal welfare organizations',
-    description:
-      'Search for animal welfare organizations by name, location, and other criteria. Optional parameters: sort, page (default: 1), limit (default: 20).',
-    inputSchema: zodToMCPSchema(organizationSearchSchema),
-  },
-  {
-    name: 'organizations.get',
-    title: 'Get organization details',
-    description:
-      'Get detailed information about a specific organization by ID.',
-    inputSchema: zodToMCPSchema(organizationGetSchema),
-  },
-  {
-    name: 'types.list',
-    title: 'List animal types',
-    description: 'Get a list of all available animal types.',
-    inputSchema: zodToMCPSchema(animalTypesSchema),
-  },
-  {
-    name: 'types.get',
-    title: 'Get animal type details',
-    description: 'Get detailed information about a specific animal type.',
-    inputSchema: zodToMCPSchema(animalTypeSchema),
-  },
-  {
-    name: 'breeds.list',
-    title: 'List animal breeds',
-    description: 'Get a list of breeds for a specific animal type.',
-    inputSchema: zodToMCPSchema(animalBreedsSchema),
-  },
-];
+  switch (request.method) {
+    case 'initialize':
+      return {
+        jsonrpc: '2.0',
+        id: request.id!,
+        result: {
+          protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion),
+          capabilities: {
+            tools: { listChanged: true },
+            resources: {},
+            prompts: {},
+            logging: {},
+          },
+          serverInfo,
+        },
+      };
 
-const allTools = {
-  'pets.search': searchPets,
-  'pets.get': getPet,
-  'organizations.search': searchOrgs,
-  'organizations.get': getOrg,
-  'types.list': listAnimalTypes,
-  'types.get': getAnimalTypeDetails,
-  'breeds.list': listAnimalBreeds,
-};
+    case 'logging/setLevel': {
+      const level = request.params?.level;
+      if (!MCP_LOG_LEVELS.includes(level)) {
+        return createErrorResponse(
+          request.id!,
+          new InvalidParamsError([
+            { in: 'params', path: 'level', message: 'Unknown log level', allowed: [...MCP_LOG_LEVELS] },
+          ])
+        );
+      }
 
-function extractCredentialsFromQuery(url: URL): { clientId?: string; clientSecret?: string } {
-  const clientId = url.searchParams.get('client-id') || undefined;
-  const clientSecret = url.searchParams.get('client-secret') || undefined;
+      // Stateless HTTP requests have no stream to filter, so there is nothing to store
+      if (notifier) {
+        notifier.logLevel = level;
+      }
+      return { jsonrpc: '2.0', id: request.id!, result: {} };
+    }
 
-  if (clientId) {
-    console.log(`🔑 Found Client ID in query params`);
-  }
+    case 'tools/list':
+      try {
+        return {
+          jsonrpc: '2.0',
+          id: request.id!,
+          result: listTools(request.params?.cursor),
+        };
+      } catch (error) {
+        return createErrorResponse(request.id!, error as Error);
+      }
 
-  if (clientSecret) {
-    console.log(`🔐 Found Client Secret in query params`);
-  }
+    case 'tools/call':
+      const { name, arguments: rawArgs } = request.params ?? {};
+      const { clientId, clientSecret } = credentials;
 
-  return { clientId, clientSecret };
-}
+      if (typeof name !== 'string' || !name) {
+        return createErrorResponse(
+          request.id!,
+          new InvalidParamsError([{ in: 'params', path: 'name', message: 'Tool name is required' }])
+        );
+      }
+      if (rawArgs !== undefined && (typeof rawArgs !== 'object' || rawArgs === null || Array.isArray(rawArgs))) {
+        return createErrorResponse(
+          request.id!,
+          new InvalidParamsError([{ in: 'params', path: 'arguments', message: 'Tool arguments must be an object' }])
+        );
+      }
+      // Omitted arguments validate like an empty object
+      const args = rawArgs ?? {};
+      const tool = findTool(name);
 
-async function handleMCPRequest(
-  request: MCPRequest,
-  url: URL
-): Promise<MCPResponse | null> {
-  switch (request.method) {
-    case 'initialize':
+      if (!tool) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id!,
+          error: {
+            code: -32601,
+            message: `Tool ${name} not found`,
+          },
+        };
+      }
+
+      // Check for required authentication credentials
+      if (!clientId || !clientSecret) {
+        return createAuthRequiredResponse(request.id!);
+      }
+
+      // Runs before any handler - some tools only touch tenant-owned rows
+      // and would otherwise never prove the secret with Petfinder
+      const refused = await admitCall(clientId, clientSecret, name);
+      if (refused) {
+        return createErrorResponse(request.id!, refused);
+      }
+
+      const toolCall: ToolCallStats = { upstreamStatuses: [], cacheOutcomes: [] };
+      const startedAt = performance.now();
+      try {
+        // Credentials travel with this call only - never through module state
+        const result = await logContext.run({ ...logContext.getStore(), toolCall }, () =>
+          tool.handler(args, { clientId, clientSecret, notifier })
+        );
+        reportToolCall(name, startedAt, toolCall);
+
+        return {
+          jsonrpc: '2.0',
+          id: request.id!,
+          result: (typeof result === 'object' && result !== null && 'content' in result) ? result : {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          },
+        };
+      } catch (error) {
+        const response = createErrorResponse(request.id!, error as Error);
+        reportToolCall(name, startedAt, toolCall, response.error!.code, error);
+        return response;
+      }
+
+    case 'resources/list':
+      return {
+        jsonrpc: '2.0',
+        id: request.id!,
+        result: { resources },
+      };
+
+    case 'resources/templates/list':
       return {
         jsonrpc: '2.0',
         id: request.id!,
-        result: {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: { listChanged: true },
-          },
-          serverInfo,
-        },
+        result: { resourceTemplates },
       };
 
-    case 'tools/list':
+    case 'prompts/list':
       return {
         jsonrpc: '2.0',
         id: request.id!,
-        result: { tools },
+        result: {
+          prompts: prompts.map(({ name, title, description, arguments: promptArgs }) => ({
+            name,
+            title,
+            description,
+            arguments: promptArgs,
+          })),
+        },
       };
 
-    case 'tools/call':
-      const { name, arguments: args } = request.params;
-      const handler = allTools[name as keyof typeof allTools];
-      const { clientId, clientSecret } = extractCredentialsFromQuery(url);
+    case 'prompts/get': {
+      const prompt = prompts.find((candidate) => candidate.name === request.params?.name);
 
-      if (!handler) {
+      if (!prompt) {
         return {
           jsonrpc: '2.0',
           id: request.id!,
           error: {
-            code: -32601,
-            message: `Tool ${name} not found`,
+            code: -32602,
+            message: `Prompt ${request.params?.name} not found`,
           },
         };
       }
 
-      // Check for required authentication query parameters
-      if (!clientId || !clientSecret) {
+      const parsedArgs = prompt.argsSchema.safeParse(request.params?.arguments ?? {});
+      if (!parsedArgs.success) {
         return {
           jsonrpc: '2.0',
           id: request.id!,
           error: {
-            code: -32001,
-            message: 'Authentication required - you need to pass both client-id and client-secret query parameters',
+            code: -32602,
+            message: `Invalid arguments for prompt ${prompt.name}`,
+            data: {
+              'invalid-params': invalidParamsFromZod(parsedArgs.error),
+            },
           },
         };
       }
 
+      if (!credentials.clientId || !credentials.clientSecret) {
+        return createAuthRequiredResponse(request.id!);
+      }
+
+      const promptRefused = await admitCall(credentials.clientId, credentials.clientSecret, `prompt:${prompt.name}`);
+      if (promptRefused) {
+        return createErrorResponse(request.id!, promptRefused);
+      }
+
       try {
-        // Set credentials in request context for this request
-        requestContext = { clientId, clientSecret };
-        
-        // Call the handler - it will use the request context credentials
-        const result = await handler(args);
+        const messages = await prompt.build(parsedArgs.data, {
+          clientId: credentials.clientId,
+          clientSecret: credentials.clientSecret,
+        });
 
         return {
           jsonrpc: '2.0',
           id: request.id!,
-          result: (typeof result === 'object' && result !== null && 'content' in result) ? result : {
-            content: [
+          result: { description: prompt.description, messages },
+        };
+      } catch (error) {
+        log.warn('Prompt failed', { prompt: request.params?.name, error });
+        return createErrorResponse(request.id!, error as Error);
+      }
+    }
+
+    case 'resources/read': {
+      const uri = request.params?.uri;
+      const matched = typeof uri === 'string' ? matchResourceRoute(uri) : undefined;
+
+      if (!matched) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id!,
+          error: {
+            code: -32602,
+            message: `Unknown resource URI: ${uri}`,
+          },
+        };
+      }
+
+      if (!credentials.clientId || !credentials.clientSecret) {
+        return createAuthRequiredResponse(request.id!);
+      }
+
+      const readRefused = await admitCall(
+        credentials.clientId,
+        credentials.clientSecret,
+        `resource:${matched.route.name}`
+      );
+      if (readRefused) {
+        return createErrorResponse(request.id!, readRefused);
+      }
+
+      try {
+        const result = await matched.route.read(matched.params, {
+          clientId: credentials.clientId,
+          clientSecret: credentials.clientSecret,
+        });
+
+        return {
+          jsonrpc: '2.0',
+          id: request.id!,
+          result: {
+            contents: [
               {
-                type: 'text',
+                uri,
+                mimeType: 'application/json',
                 text: JSON.stringify(result, null, 2),
               },
             ],
           },
         };
       } catch (error) {
-        console.error(
-          `❌ Tool error: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`
-        );
+        log.warn('Resource read failed', { uri, error });
         return createErrorResponse(request.id!, error as Error);
-      } finally {
-        // Clear credentials after request
-        requestContext = {};
       }
+    }
 
     default:
       return {
@@ -714,108 +4594,569 @@ async function handleMCPRequest(
   }
 }
 
+// =============================================================================
+// STREAMABLE HTTP SESSIONS
+// =============================================================================
+
+const SESSION_TTL_MS = parseInt(process.env.MCP_SESSION_TTL_SECONDS ?? '3600', 10) * 1000;
+const MAX_SESSION_EVENTS = 100;
+
+interface SessionEvent {
+  id: number;
+  message: unknown;
+}
+
+interface MCPSession {
+  id: string;
+  tenant: string; // tenantKey of the credentials that initialized it
+  protocolVersion: string;
+  lastActivity: number; // Unix timestamp in ms
+  nextEventId: number;
+  logLevel: MCPLogLevel;
+  events: SessionEvent[]; // Replay buffer for Last-Event-ID resumption
+  streams: Set<ReadableStreamDefaultController<Uint8Array>>;
+}
+
+const sessions = new Map<string, MCPSession>();
+const sseEncoder = new TextEncoder();
+
+function createSession(tenant: string, protocolVersion: string): MCPSession {
+  const session: MCPSession = {
+    id: crypto.randomUUID(),
+    tenant,
+    protocolVersion,
+    lastActivity: Date.now(),
+    nextEventId: 1,
+    logLevel: 'info',
+    events: [],
+    streams: new Set(),
+  };
+  sessions.set(session.id, session);
+  log.info('Created session', { session_id: session.id, protocol_version: protocolVersion, active_sessions: sessions.size });
+  return session;
+}
+
+function closeSession(session: MCPSession) {
+  for (const stream of session.streams) {
+    try {
+      stream.close();
+    } catch {
+      // Stream already closed by the client
+    }
+  }
+  session.streams.clear();
+  sessions.delete(session.id);
+  log.info('Closed session', { session_id: session.id, active_sessions: sessions.size });
+}
+
+function cleanupExpiredSessions() {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+
+  for (const session of sessions.values()) {
+    // Sessions with an open SSE stream are still in use
+    if (session.lastActivity <= cutoff && session.streams.size === 0) {
+      log.info('Expiring idle session', { session_id: session.id });
+      closeSession(session);
+    }
+  }
+}
+
+function formatSSEEvent(event: SessionEvent): Uint8Array {
+  return sseEncoder.encode(
+    `id: ${event.id}\nevent: message\ndata: ${JSON.stringify(event.message)}\n\n`
+  );
+}
+
+/**
+ * Queues a server-to-client JSON-RPC message on a session. The message is
+ * written to every open SSE stream and kept in a bounded buffer so a client
+ * that reconnects with Last-Event-ID does not miss it.
+ */
+function sendSessionMessage(session: MCPSession, message: unknown) {
+  const event: SessionEvent = { id: session.nextEventId++, message };
+  session.events.push(event);
+  if (session.events.length > MAX_SESSION_EVENTS) {
+    session.events.shift();
+  }
+
+  const chunk = formatSSEEvent(event);
+  for (const stream of session.streams) {
+    try {
+      stream.enqueue(chunk);
+    } catch {
+      session.streams.delete(stream);
+    }
+  }
+}
+
+function createSessionNotifier(session: MCPSession): Notifier {
+  return {
+    notify: (method, params) => sendSessionMessage(session, { jsonrpc: '2.0', method, params }),
+    isOpen: () => sessions.has(session.id),
+    get logLevel() {
+      return session.logLevel;
+    },
+    set logLevel(level) {
+      session.logLevel = level;
+    },
+  };
+}
+
+function openSessionStream(session: MCPSession, lastEventId: string | null): Response {
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      session.streams.add(controller);
+
+      // Flush headers right away so clients know the stream is open
+      controller.enqueue(sseEncoder.encode(': connected\n\n'));
+
+      if (lastEventId !== null) {
+        const after = parseInt(lastEventId, 10);
+        const missed = session.events.filter((event) => event.id > after);
+        log.info('Replaying missed session events', { session_id: session.id, after: lastEventId, count: missed.length });
+        for (const event of missed) {
+          controller.enqueue(formatSSEEvent(event));
+        }
+      }
+    },
+    cancel() {
+      session.streams.delete(controller);
+      session.lastActivity = Date.now();
+      log.info('SSE stream closed', { session_id: session.id });
+    },
+  });
+
+  log.info('SSE stream opened', { session_id: session.id });
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': session.id,
+    },
+  });
+}
+
 // =============================================================================
 // HTTP SERVER
 // =============================================================================
 
+// Browser origins allowed to call the server; `*` allows any. Empty by
+// default, so a web page can't drive the server unless it is listed here
+const CORS_ALLOWED_ORIGINS = (process.env.CORS_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+function isOriginAllowed(origin: string): boolean {
+  return CORS_ALLOWED_ORIGINS.includes('*') || CORS_ALLOWED_ORIGINS.includes(origin);
+}
+
+// Added to every response; nothing is added for origins outside the allowlist
+function applyCORSHeaders(response: Response, origin: string | null) {
+  if (!origin || !isOriginAllowed(origin)) {
+    return;
+  }
+  response.headers.set('Access-Control-Allow-Origin', CORS_ALLOWED_ORIGINS.includes('*') ? '*' : origin);
+  response.headers.set('Access-Control-Expose-Headers', 'Mcp-Session-Id, X-Request-Id, Retry-After');
+  response.headers.append('Vary', 'Origin');
+}
+
+function clientIP(req: Request, server?: Server): string {
+  if (TRUST_PROXY) {
+    const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  return server?.requestIP(req)?.address ?? 'unknown';
+}
+
 const port = parseInt(process.env.PORT ?? '3000', 10);
 
-serve({
-  port,
-  async fetch(req) {
-    const url = new URL(req.url);
-    
-    // Comprehensive request logging
-    console.log('\n🔍 === INCOMING REQUEST ===');
-    console.log(`📍 ${req.method} ${url.pathname}${url.search}`);
-    console.log(`🌐 Origin: ${req.headers.get('origin') || 'none'}`);
-    console.log(`🔗 Referer: ${req.headers.get('referer') || 'none'}`);
-    console.log(`👤 User-Agent: ${req.headers.get('user-agent') || 'none'}`);
-    
-    // Log all headers
-    console.log('📋 All Headers:');
-    for (const [key, value] of req.headers.entries()) {
-      // Mask potential secrets but show the header exists
-      if (key.toLowerCase().includes('secret') || key.toLowerCase().includes('password')) {
-        console.log(`   ${key}: [REDACTED - ${value.length} chars]`);
-      } else {
-        console.log(`   ${key}: ${value}`);
-      }
+// Optional credential /readyz uses to prove the Petfinder OAuth endpoint
+// answers; results are reused for a while so probes don't hammer it
+const READINESS_PROBE_CLIENT_ID = process.env.READINESS_PROBE_CLIENT_ID;
+const READINESS_PROBE_CLIENT_SECRET = process.env.READINESS_PROBE_CLIENT_SECRET;
+const READINESS_PROBE_TTL_MS = parseInt(process.env.READINESS_PROBE_TTL_SECONDS ?? '30', 10) * 1000;
+
+interface ReadinessCheck {
+  status: 'ok' | 'failed' | 'skipped';
+  latency_ms?: number;
+  error?: string;
+}
+
+let lastUpstreamProbe: { at: number; result: ReadinessCheck } | undefined;
+
+/**
+ * Requests a token for the probe credential - a single attempt, outside the
+ * token cache, so a healthy cached token can't hide an OAuth outage.
+ */
+async function probeUpstreamOAuth(): Promise<ReadinessCheck> {
+  if (!READINESS_PROBE_CLIENT_ID || !READINESS_PROBE_CLIENT_SECRET) {
+    return { status: 'skipped' };
+  }
+  if (lastUpstreamProbe && Date.now() - lastUpstreamProbe.at < READINESS_PROBE_TTL_MS) {
+    return lastUpstreamProbe.result;
+  }
+
+  const startedAt = performance.now();
+  let result: ReadinessCheck;
+  try {
+    const response = await fetch(`${petfinderBase}/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: READINESS_PROBE_CLIENT_ID,
+        client_secret: READINESS_PROBE_CLIENT_SECRET,
+      }).toString(),
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    metrics.upstreamResponses.inc({ status: String(response.status) });
+    result = response.ok
+      ? { status: 'ok', latency_ms: Math.round(performance.now() - startedAt) }
+      : { status: 'failed', error: `OAuth token request returned ${response.status}` };
+  } catch (error) {
+    result = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (result.status === 'failed') {
+    log.warn('Readiness probe failed', { error: result.error });
+  }
+  lastUpstreamProbe = { at: Date.now(), result };
+  return result;
+}
+
+async function readinessResponse(): Promise<Response> {
+  const checks = { upstream_oauth: await probeUpstreamOAuth() };
+  const ready = Object.values(checks).every((check) => check.status !== 'failed');
+  return jsonResponse({ status: ready ? 'ready' : 'not_ready', checks }, ready ? 200 : 503);
+}
+
+// Callers may supply their own correlation ID; anything else gets a fresh one
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export async function handleHTTPRequest(req: Request, server?: Server): Promise<Response> {
+  const suppliedId = req.headers.get('x-request-id');
+  const requestId = suppliedId && REQUEST_ID_PATTERN.test(suppliedId) ? suppliedId : crypto.randomUUID();
+
+  return logContext.run({ requestId }, async () => {
+    const startedAt = performance.now();
+    requestsInFlight++;
+    let response: Response;
+    try {
+      response = await routeHTTPRequest(req, clientIP(req, server));
+    } finally {
+      requestsInFlight--;
     }
+    response.headers.set('X-Request-Id', requestId);
+    applyCORSHeaders(response, req.headers.get('origin'));
+    log.info('HTTP response', { status: response.status, latency_ms: Math.round(performance.now() - startedAt) });
+    return response;
+  });
+}
 
-    if (req.method === 'OPTIONS') {
-      console.log('✅ Handling CORS preflight request');
-      return new Response(null, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-          'Access-Control-Allow-Headers': '*',
-        },
-      });
+async function routeHTTPRequest(req: Request, ip: string): Promise<Response> {
+  const url = new URL(req.url);
+
+  log.info('HTTP request', {
+    method: req.method,
+    path: url.pathname,
+    query: redactQueryString(url) || undefined,
+    user_agent: req.headers.get('user-agent') ?? undefined,
+  });
+  log.debug('HTTP request headers', { headers: redactHeaders(req.headers) });
+
+  const origin = req.headers.get('origin');
+  if (origin && !isOriginAllowed(origin)) {
+    log.warn('Rejected request from disallowed origin', { origin });
+    return new Response('Origin not allowed', { status: 403 });
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Methods': 'POST, GET, DELETE, OPTIONS',
+        // Spelled out because the '*' wildcard never covers Authorization
+        'Access-Control-Allow-Headers':
+          'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-Api-Key, X-Petfinder-Client-Id, X-Petfinder-Client-Secret, X-Request-Id',
+      },
+    });
+  }
+
+  if (url.pathname === '/healthz') {
+    return new Response('OK', {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain',
+      },
+    });
+  }
+
+  if (url.pathname === '/readyz') {
+    return readinessResponse();
+  }
+
+  if (url.pathname === '/metrics') {
+    return new Response(renderMetrics(), {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  }
+
+  if (url.pathname !== '/mcp') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const limited = checkIPLimit(ip);
+  if (limited) {
+    const retryAfter = String(limited.body.retry_after);
+    recordJSONRPCError(-32004);
+    return jsonResponse(createErrorResponse(null, limited), 429, { 'Retry-After': retryAfter });
+  }
+
+  cleanupExpiredSessions();
+
+  const protocolVersion = req.headers.get('mcp-protocol-version');
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return jsonRPCErrorResponse(400, -32600, `Unsupported MCP-Protocol-Version: ${protocolVersion}`);
+  }
+
+  const credentials = extractCredentialsFromRequest(req, url);
+  const tenant =
+    credentials.clientId && credentials.clientSecret
+      ? tenantKey({ clientId: credentials.clientId, clientSecret: credentials.clientSecret })
+      : undefined;
+
+  // Sessions are optional - clients that never initialized one (or predate
+  // Streamable HTTP) keep working statelessly, but an unknown ID is an error.
+  // A session only answers to the credentials that opened it; anyone else
+  // gets the same 404, so session IDs can't be probed
+  const sessionId = req.headers.get('mcp-session-id');
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (sessionId && (!session || session.tenant !== tenant)) {
+    if (session) {
+      log.warn('Session used with other credentials', { session_id: sessionId });
     }
+    return jsonRPCErrorResponse(404, -32003, `Session ${sessionId} not found or expired`);
+  }
+  if (session) {
+    session.lastActivity = Date.now();
+  }
 
-    if (url.pathname === '/healthz') {
-      console.log('💚 Health check request');
-      return new Response('OK', {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/plain',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
+  if (req.method === 'GET') {
+    if (!session) {
+      return jsonRPCErrorResponse(400, -32600, 'Mcp-Session-Id header required to open an SSE stream');
+    }
+    if (!req.headers.get('accept')?.includes('text/event-stream')) {
+      return jsonRPCErrorResponse(406, -32600, 'GET /mcp requires Accept: text/event-stream');
     }
+    return openSessionStream(session, req.headers.get('last-event-id'));
+  }
 
-    if (req.method !== 'POST' || url.pathname !== '/mcp') {
-      console.log(`❌ Invalid request: ${req.method} ${url.pathname}`);
-      return new Response('Not found', { status: 404 });
+  if (req.method === 'DELETE') {
+    if (!session) {
+      return jsonRPCErrorResponse(400, -32600, 'Mcp-Session-Id header required to end a session');
     }
+    closeSession(session);
+    return new Response(null, { status: 204 });
+  }
 
-    try {
-      const bodyText = await req.text();
-      console.log('📦 Request Body:');
-      console.log(bodyText);
-      
-      const body = JSON.parse(bodyText) as MCPRequest;
-      console.log('🔧 Parsed MCP Request:');
-      console.log(`   Method: ${body.method}`);
-      console.log(`   ID: ${body.id}`);
-      if (body.params) {
-        console.log('   Params:', JSON.stringify(body.params, null, 2));
-      }
-      
-      const response = await handleMCPRequest(body, url);
-
-      if (response) {
-        console.log('✅ Sending MCP Response');
-        return new Response(JSON.stringify(response), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      } else {
-        console.log('✅ Sending empty response (204)');
-        return new Response(null, {
-          status: 204,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      }
-    } catch (error) {
-      console.error('❌ Request processing error:', error);
-      const errorResponse = createErrorResponse('unknown', error as Error, -32700);
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET, POST, DELETE, OPTIONS' },
+    });
+  }
 
-      return new Response(JSON.stringify(errorResponse), {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
+  const sessionHeaders: Record<string, string> = session ? { 'Mcp-Session-Id': session.id } : {};
+  const notifier = session ? createSessionNotifier(session) : undefined;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await req.text());
+    log.debug('HTTP request body', { body: redactValue(body) });
+  } catch (error) {
+    log.warn('Could not parse request body', { error });
+    recordJSONRPCError(-32700);
+    return jsonResponse(createErrorResponse(null, error as Error, -32700), 400);
+  }
+
+  // JSON-RPC 2.0 batch: entries run in parallel, notifications produce no entry
+  if (Array.isArray(body)) {
+    if (body.length === 0) {
+      recordJSONRPCError(-32600);
+      return jsonResponse(
+        {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32600, message: 'Invalid Request - empty batch' },
         },
+        400
+      );
+    }
+
+    const replies = await processMCPBatch(body, credentials, notifier);
+
+    if (replies.length === 0) {
+      return acceptedResponse(sessionHeaders);
+    }
+
+    return jsonResponse(replies, 200, sessionHeaders);
+  }
+
+  const response = await processMCPMessage(body, credentials, notifier);
+
+  // A successful initialize with credentials starts a new session bound to
+  // them; without credentials the client stays stateless
+  if (isValidMCPRequest(body) && body.method === 'initialize' && response?.result && tenant) {
+    const newSession = createSession(tenant, response.result.protocolVersion);
+    sessionHeaders['Mcp-Session-Id'] = newSession.id;
+  }
+
+  if (response) {
+    return jsonResponse(response, 200, sessionHeaders);
+  }
+
+  return acceptedResponse(sessionHeaders);
+}
+
+function jsonResponse(
+  payload: unknown,
+  status: number = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+}
+
+function jsonRPCErrorResponse(status: number, code: number, message: string): Response {
+  recordJSONRPCError(code);
+  log.warn('Rejected MCP request', { status, code, reason: message });
+  return jsonResponse({ jsonrpc: '2.0', id: null, error: { code, message } }, status);
+}
+
+function acceptedResponse(headers: Record<string, string> = {}): Response {
+  return new Response(null, {
+    status: 202,
+    headers: {
+      ...headers,
+    },
+  });
+}
+
+// =============================================================================
+// STDIO TRANSPORT
+// =============================================================================
+
+function writeStdioMessage(message: unknown) {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+// The process lives as long as the stdio connection, so it is always open
+const stdioNotifier: Notifier = {
+  notify: (method, params) => writeStdioMessage({ jsonrpc: '2.0', method, params }),
+  isOpen: () => true,
+  logLevel: 'info',
+};
+
+// Server-wide notifications reach every open session, or the stdio client
+function broadcastNotification(method: string, params?: unknown) {
+  for (const session of sessions.values()) {
+    sendSessionMessage(session, { jsonrpc: '2.0', method, params });
+  }
+  if (STDIO_MODE) {
+    stdioNotifier.notify(method, params);
+  }
+}
+
+async function handleStdioLine(line: string, credentials: ClientCredentials) {
+  let body: unknown;
+  try {
+    body = JSON.parse(line);
+  } catch (error) {
+    log.warn('Could not parse stdio message', { error });
+    recordJSONRPCError(-32700);
+    writeStdioMessage(createErrorResponse(null, error as Error, -32700));
+    return;
+  }
+
+  if (Array.isArray(body)) {
+    if (body.length === 0) {
+      recordJSONRPCError(-32600);
+      writeStdioMessage({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request - empty batch' },
       });
+      return;
     }
-  },
-});
 
-console.log(`🚀 Petfinder MCP Server listening on port ${port}`);
-console.log(`🐾 Ready to help find adoptable pets and organizations!`);
\ No newline at end of file
+    const replies = await processMCPBatch(body, credentials, stdioNotifier);
+    if (replies.length > 0) {
+      writeStdioMessage(replies);
+    }
+    return;
+  }
+
+  const response = await processMCPMessage(body, credentials, stdioNotifier);
+  if (response) {
+    writeStdioMessage(response);
+  }
+}
+
+/**
+ * Serves newline-delimited JSON-RPC over stdin/stdout for MCP hosts that
+ * launch the server as a subprocess. Messages are handled concurrently, so
+ * responses may be written out of order - clients match them by id.
+ */
+async function runStdioServer() {
+  const credentials = extractCredentialsFromEnv();
+  if (!credentials.clientId || !credentials.clientSecret) {
+    log.warn('PETFINDER_CLIENT_ID and PETFINDER_CLIENT_SECRET are not set - tool calls will fail');
+  }
+
+  const pending = new Set<Promise<void>>();
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  banner('🚀 Petfinder MCP Server listening on stdio');
+  log.info('Listening', { transport: 'stdio' });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    // Each line is its own request for correlation purposes
+    requestsInFlight++;
+    const task = logContext
+      .run({ requestId: crypto.randomUUID() }, () => handleStdioLine(line, credentials))
+      .finally(() => {
+        requestsInFlight--;
+        pending.delete(task);
+      });
+    pending.add(task);
+  }
+
+  // stdin closed - finish in-flight requests before exiting
+  await Promise.all(pending);
+}
+
+if (import.meta.main) {
+  if (STDIO_MODE) {
+    await runStdioServer();
+  } else {
+    serve({ port, fetch: handleHTTPRequest });
+
+    banner(`🚀 Petfinder MCP Server listening on port ${port}`);
+    banner(`🐾 Ready to help find adoptable pets and organizations!`);
+    log.info('Listening', { transport: 'http', port });
+  }
+}